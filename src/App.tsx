@@ -3,24 +3,155 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { RequireAuth } from "@/components/RequireAuth";
+import { AuthProvider } from "@/hooks/use-auth";
+import Catering from "./pages/Catering";
+import Compliance from "./pages/Compliance";
+import Dashboard from "./pages/Dashboard";
+import Emergency from "./pages/Emergency";
+import FastCheckIn from "./pages/FastCheckIn";
 import Index from "./pages/Index";
+import Login from "./pages/Login";
+import Motorcycles from "./pages/Motorcycles";
 import NotFound from "./pages/NotFound";
+import Places from "./pages/Places";
+import Register from "./pages/Register";
+import RegistrationBuilder from "./pages/RegistrationBuilder";
+import RideRoster from "./pages/RideRoster";
+import Rides from "./pages/Rides";
+import ScanCheckIn from "./pages/ScanCheckIn";
+import Tickets from "./pages/Tickets";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/login" element={<Login />} />
+            <Route path="/register/:eventId" element={<Register />} />
+            <Route
+              path="/"
+              element={
+                <RequireAuth>
+                  <Index />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/events/:eventId"
+              element={
+                <RequireAuth>
+                  <Index />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/events/:eventId/tickets"
+              element={
+                <RequireAuth>
+                  <Tickets />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/events/:eventId/catering"
+              element={
+                <RequireAuth>
+                  <Catering />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/events/:eventId/compliance"
+              element={
+                <RequireAuth>
+                  <Compliance />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/events/:eventId/motorcycles"
+              element={
+                <RequireAuth>
+                  <Motorcycles />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/events/:eventId/places"
+              element={
+                <RequireAuth>
+                  <Places />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/events/:eventId/rides"
+              element={
+                <RequireAuth>
+                  <Rides />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/events/:eventId/rides/:rideId"
+              element={
+                <RequireAuth>
+                  <RideRoster />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/events/:eventId/registration"
+              element={
+                <RequireAuth>
+                  <RegistrationBuilder />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/checkin"
+              element={
+                <RequireAuth>
+                  <FastCheckIn />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/checkin/scan"
+              element={
+                <RequireAuth>
+                  <ScanCheckIn />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/dashboard"
+              element={
+                <RequireAuth>
+                  <Dashboard />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/emergency"
+              element={
+                <RequireAuth>
+                  <Emergency />
+                </RequireAuth>
+              }
+            />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
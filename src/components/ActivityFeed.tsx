@@ -0,0 +1,38 @@
+import React from "react";
+import { Activity } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { GuestEventItem } from "@/components/GuestEventItem";
+import { useActivityFeed } from "@/hooks/use-guest-events";
+
+interface ActivityFeedProps {
+  eventId: string;
+}
+
+export const ActivityFeed: React.FC<ActivityFeedProps> = ({ eventId }) => {
+  const { data: activity = [], isLoading } = useActivityFeed(eventId);
+
+  return (
+    <Card className="card-moto">
+      <div className="flex items-center gap-2 mb-3">
+        <Activity className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold">Actividad reciente</h3>
+      </div>
+      <ScrollArea className="h-64">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Cargando...</p>
+        ) : activity.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Todavía no hay ingresos registrados.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border pr-3">
+            {activity.map((entry) => (
+              <GuestEventItem key={entry.id} entry={entry} showGuest />
+            ))}
+          </ul>
+        )}
+      </ScrollArea>
+    </Card>
+  );
+};
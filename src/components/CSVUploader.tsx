@@ -1,70 +1,216 @@
-import React, { useState, useCallback } from 'react';
-import { Upload, FileText, ChevronDown, ChevronUp, AlertCircle } from 'lucide-react';
+import React, { useState } from 'react';
+import { Upload, FileText, ChevronDown, ChevronUp, AlertCircle, UserMinus } from 'lucide-react';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useEvent, useUpdateEvent } from '@/hooks/use-events';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import { useMotorcycleCatalogue } from '@/hooks/use-motorcycle-catalogue';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { ColumnMappingStep } from '@/components/ColumnMappingStep';
+import { ImportPreview } from '@/components/ImportPreview';
+import {
+  applyColumnMapping,
+  isMappingComplete,
+  mergeColumnMapping,
+  parseColumnMapping,
+  type ColumnMapping,
+} from '@/lib/columnMapping';
+import { applyGuestImport, deleteGuests, planGuestImport, type ImportPlan } from '@/lib/guestImport';
+import { parseIdentityColumns, suggestIdentityColumns } from '@/lib/guestIdentity';
+import { getGuestName, asGuestData, type Guest, type GuestRow } from '@/lib/guests';
+
+interface ParsedFile {
+  rows: GuestRow[];
+  headers: string[];
+}
+
+interface PendingImport {
+  plan: ImportPlan;
+  data: GuestRow[];
+  headers: string[];
+  source: ParsedFile;
+  mapping: ColumnMapping;
+}
+
+interface PendingMapping extends ParsedFile {
+  savedMapping: ColumnMapping;
+}
 
 interface CSVUploaderProps {
   onDataLoad: (data: any[], headers: string[]) => void;
+  eventId: string;
 }
 
-export const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoad }) => {
+export const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoad, eventId }) => {
   const [isOpen, setIsOpen] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string>('');
+  const [removedGuests, setRemovedGuests] = useState<Guest[]>([]);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
   const { toast } = useToast();
+  const { catalogue } = useMotorcycleCatalogue();
+  // Mapping and identity columns live on the event, shared by every device
+  const { event } = useEvent(eventId);
+  const updateEvent = useUpdateEvent(eventId);
 
-  const saveGuestsToSupabase = async (data: any[], headers: string[]) => {
+  const saveEventSettings = async (changes: TablesUpdate<'events'>) => {
     try {
-      // Clear existing guests
-      await supabase.from('guests').delete().neq('id', '00000000-0000-0000-0000-000000000000');
-      
-      // Prepare guest data for insertion
-      const guestsToInsert = data.map((row, index) => {
-        // Try to find an ID field (common variations)
-        const idField = headers.find(header => 
-          header.toLowerCase().includes('id') || 
-          header.toLowerCase().includes('código') || 
-          header.toLowerCase().includes('codigo')
-        );
-        
-        const guestId = idField ? row[idField]?.toString() || `guest_${index + 1}` : `guest_${index + 1}`;
-        
-        return {
-          guest_id: guestId,
-          guest_data: row,
-          confirmed: false
-        };
+      await updateEvent.mutateAsync(changes);
+    } catch (error) {
+      console.error('Error saving import settings:', error);
+      toast({
+        title: "Error al guardar la configuración",
+        description:
+          (error instanceof Error && error.message) ||
+          "No se pudo guardar la configuración de importación del evento.",
+        variant: "destructive",
       });
-      
-      const { error: insertError } = await supabase
-        .from('guests')
-        .insert(guestsToInsert);
-        
-      if (insertError) {
-        throw insertError;
+    }
+  };
+
+  const stageImport = async (
+    source: ParsedFile,
+    mapping: ColumnMapping,
+    identityColumns?: string[]
+  ) => {
+    try {
+      const { rows, headers } = applyColumnMapping(source.rows, source.headers, mapping);
+      const savedIdentity = parseIdentityColumns(event?.identity_columns);
+      const columns =
+        identityColumns ??
+        (savedIdentity?.every((column) => headers.includes(column))
+          ? savedIdentity
+          : suggestIdentityColumns(rows, headers));
+      const plan = await planGuestImport(eventId, rows, headers, columns);
+      setPendingImport({ plan, data: rows, headers, source, mapping });
+    } catch (error) {
+      console.error('Error comparing with Supabase:', error);
+      toast({
+        title: "Error al comparar",
+        description:
+          (error instanceof Error && error.message) ||
+          "No se pudieron leer los invitados actuales de la base de datos.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleParsedFile = async (rows: GuestRow[], headers: string[]) => {
+    const savedMapping = parseColumnMapping(event?.column_mapping);
+    // Known headers map automatically; anything new goes through the wizard
+    if (isMappingComplete(headers, savedMapping)) {
+      await stageImport({ rows, headers }, savedMapping);
+    } else {
+      setPendingMapping({ rows, headers, savedMapping });
+    }
+  };
+
+  const handleConfirmMapping = async (mapping: ColumnMapping) => {
+    if (!pendingMapping) return;
+    const { rows, headers } = pendingMapping;
+    setPendingMapping(null);
+    await saveEventSettings({
+      column_mapping: mergeColumnMapping(parseColumnMapping(event?.column_mapping), mapping),
+    });
+    setIsLoading(true);
+    await stageImport({ rows, headers }, mapping);
+    setIsLoading(false);
+  };
+
+  const handleIdentityChange = async (columns: string[]) => {
+    if (!pendingImport) return;
+    await saveEventSettings({ identity_columns: columns });
+    await stageImport(pendingImport.source, pendingImport.mapping, columns);
+  };
+
+  const handleEditMapping = () => {
+    if (!pendingImport) return;
+    setPendingMapping({ ...pendingImport.source, savedMapping: pendingImport.mapping });
+    setPendingImport(null);
+  };
+
+  const handleApplyImport = async () => {
+    if (!pendingImport) return;
+    setIsApplying(true);
+    try {
+      const summary = await applyGuestImport(pendingImport.plan, catalogue);
+      setRemovedGuests(summary.removed);
+      // Walk-ins and registrations key new guests the way this import did
+      const { identityColumns } = pendingImport.plan;
+      const savedIdentity = parseIdentityColumns(event?.identity_columns);
+      if (JSON.stringify(savedIdentity) !== JSON.stringify(identityColumns)) {
+        await saveEventSettings({ identity_columns: identityColumns });
       }
-      
+
       toast({
         title: "Datos guardados",
-        description: `${guestsToInsert.length} invitados guardados en la base de datos.`,
+        description: `${summary.inserted} nuevos, ${summary.updated} actualizados, ${summary.unchanged} sin cambios.${
+          summary.removed.length > 0
+            ? ` ${summary.removed.length} invitados ya no están en el archivo.`
+            : ''
+        }`,
       });
-    } catch (error: any) {
+
+      onDataLoad(
+        pendingImport.plan.entries.map((entry) => ({ ...entry.row, _guest_id: entry.guestId })),
+        pendingImport.headers
+      );
+      setPendingImport(null);
+      // Keep the panel open while there are missing guests to review
+      setIsOpen(summary.removed.length > 0);
+    } catch (error) {
       console.error('Error saving to Supabase:', error);
       toast({
         title: "Error al guardar",
-        description: error.message || "No se pudieron guardar los datos en la base de datos.",
+        description:
+          (error instanceof Error && error.message) ||
+          "No se pudieron guardar los datos en la base de datos.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleCancelImport = () => {
+    setPendingImport(null);
+    setPendingMapping(null);
+    setFileName('');
+  };
+
+  const handleRemoveMissingGuests = async () => {
+    setIsRemoving(true);
+    try {
+      await deleteGuests(removedGuests.map((g) => g.id));
+      toast({
+        title: "Invitados eliminados",
+        description: `${removedGuests.length} invitados eliminados de la base de datos.`,
+      });
+      setRemovedGuests([]);
+    } catch (error) {
+      console.error('Error deleting guests:', error);
+      toast({
+        title: "Error al eliminar",
+        description:
+          (error instanceof Error && error.message) ||
+          "No se pudieron eliminar los invitados.",
         variant: "destructive",
       });
+    } finally {
+      setIsRemoving(false);
     }
   };
 
-  const processExcelFile = useCallback((file: File) => {
+  // Plain functions, not callbacks: they read the event's current mapping
+  // and identity columns through handleParsedFile
+  const processExcelFile = (file: File) => {
     const reader = new FileReader();
     
     reader.onload = async (e) => {
@@ -118,13 +264,11 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoad }) => {
           return;
         }
         
-        // Save to Supabase
-        await saveGuestsToSupabase(dataRows, headers);
+        // Map columns and compare with Supabase before writing anything
+        await handleParsedFile(dataRows, headers);
         
-        onDataLoad(dataRows, headers);
         setError(null);
         setIsLoading(false);
-        setIsOpen(false);
       } catch (error) {
         setError(`Error al procesar archivo Excel: ${error}`);
         setIsLoading(false);
@@ -137,10 +281,10 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoad }) => {
     };
     
     reader.readAsBinaryString(file);
-  }, [onDataLoad]);
+  };
 
-  const processCSVFile = useCallback((file: File) => {
-    Papa.parse(file, {
+  const processCSVFile = (file: File) => {
+    Papa.parse<GuestRow>(file, {
       header: true,
       skipEmptyLines: true,
       dynamicTyping: true,
@@ -177,14 +321,13 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoad }) => {
         }
 
         try {
-          // Save to Supabase
-          await saveGuestsToSupabase(validData, headers);
+          // Map columns and compare with Supabase before writing anything
+          await handleParsedFile(validData, headers);
           
-          onDataLoad(validData, headers);
           setError(null);
-          setIsOpen(false);
         } catch (error) {
-          // Error handling is done in saveGuestsToSupabase
+          // stageImport toasts its own errors; this failed before staging
+          setError(`Error al procesar CSV: ${(error instanceof Error && error.message) || error}`);
         }
       },
       error: (error) => {
@@ -192,15 +335,18 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoad }) => {
         setError(`Error al leer el archivo: ${error.message}`);
       }
     });
-  }, [onDataLoad]);
+  };
 
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     setFileName(file.name);
     setIsLoading(true);
     setError(null);
+    setRemovedGuests([]);
+    setPendingImport(null);
+    setPendingMapping(null);
 
     const fileExtension = file.name.toLowerCase();
     
@@ -224,7 +370,7 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoad }) => {
     } else if (fileExtension.endsWith('.xlsx') || fileExtension.endsWith('.xls')) {
       processExcelFile(file);
     }
-  }, [processCSVFile, processExcelFile]);
+  };
 
   return (
     <Card className="card-moto">
@@ -237,7 +383,11 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoad }) => {
             <div className="flex items-center space-x-3">
               <FileText className="h-5 w-5 text-primary" />
               <span className="font-semibold">
-                {fileName ? `Archivo cargado: ${fileName}` : 'Cargar archivo CSV/Excel'}
+                {pendingMapping
+                  ? `Asignar columnas: ${fileName}`
+                  : pendingImport
+                  ? `Revisar cambios: ${fileName}`
+                  : fileName ? `Archivo cargado: ${fileName}` : 'Cargar archivo CSV/Excel'}
               </span>
             </div>
             {isOpen ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
@@ -245,6 +395,25 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoad }) => {
         </CollapsibleTrigger>
         
         <CollapsibleContent className="px-4 pb-4">
+          {pendingMapping ? (
+            <ColumnMappingStep
+              headers={pendingMapping.headers}
+              rows={pendingMapping.rows}
+              savedMapping={pendingMapping.savedMapping}
+              onConfirm={handleConfirmMapping}
+              onCancel={handleCancelImport}
+            />
+          ) : pendingImport ? (
+            <ImportPreview
+              plan={pendingImport.plan}
+              fileName={fileName}
+              isApplying={isApplying}
+              onApply={handleApplyImport}
+              onCancel={handleCancelImport}
+              onEditMapping={handleEditMapping}
+              onIdentityChange={handleIdentityChange}
+            />
+          ) : (
           <div className="border-2 border-dashed border-border rounded-lg p-8 text-center hover:border-primary/50 transition-colors">
             <input
               type="file"
@@ -263,14 +432,15 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoad }) => {
               </div>
               <div>
                 <p className="text-lg font-medium">
-                  {isLoading ? 'Procesando y guardando archivo...' : 'Seleccionar archivo CSV o Excel'}
+                  {isLoading ? 'Procesando archivo...' : 'Seleccionar archivo CSV o Excel'}
                 </p>
                 <p className="text-sm text-muted-foreground mt-1">
-                  Formatos: CSV, XLS, XLSX • Máximo 10MB • Se guarda automáticamente
+                  Formatos: CSV, XLS, XLSX • Máximo 10MB • Vista previa antes de guardar
                 </p>
               </div>
             </label>
           </div>
+          )}
 
           {error && (
             <div className="mt-4 p-4 bg-destructive/10 border border-destructive/20 rounded-lg flex items-start space-x-3">
@@ -278,6 +448,48 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoad }) => {
               <p className="text-destructive text-sm">{error}</p>
             </div>
           )}
+
+          {removedGuests.length > 0 && (
+            <div className="mt-4 p-4 bg-warning/10 border border-warning/20 rounded-lg space-y-3">
+              <div className="flex items-start space-x-3">
+                <UserMinus className="h-5 w-5 text-warning flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium">
+                    {removedGuests.length} invitados guardados no aparecen en el archivo nuevo
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Se conservaron junto con su confirmación. Podés eliminarlos si ya no asisten.
+                  </p>
+                </div>
+              </div>
+              <ul className="max-h-40 overflow-y-auto text-sm text-muted-foreground space-y-1 pl-8">
+                {removedGuests.map((guest) => (
+                  <li key={guest.id}>
+                    • {getGuestName(asGuestData(guest.guest_data), guest.guest_id)}
+                    {guest.confirmed ? ' (confirmado)' : ''}
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRemovedGuests([])}
+                  disabled={isRemoving}
+                >
+                  Conservar
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={handleRemoveMissingGuests}
+                  disabled={isRemoving}
+                >
+                  {isRemoving ? 'Eliminando...' : `Eliminar ${removedGuests.length}`}
+                </Button>
+              </div>
+            </div>
+          )}
         </CollapsibleContent>
       </Collapsible>
     </Card>
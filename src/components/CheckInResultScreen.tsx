@@ -0,0 +1,153 @@
+import React from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  HeartPulse,
+  IdCard,
+  ScanLine,
+  UserCheck,
+  Users,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { describeCheckIn } from "@/lib/checkIn";
+import { getGuestAlerts } from "@/lib/guestAlerts";
+import { getGuestField } from "@/lib/guestFields";
+import { asGuestData, getGuestName, type Guest } from "@/lib/guests";
+import { cn } from "@/lib/utils";
+
+export type ScanOutcome =
+  // `note` explains how the guest was found, e.g. by a scanned DNI;
+  // `link` names the rider a companion came with, or the rider's companion
+  | { kind: "found"; guest: Guest; note?: string; link?: string }
+  | { kind: "error"; title: string; message: string };
+
+interface CheckInResultScreenProps {
+  outcome: ScanOutcome;
+  canCheckIn: boolean;
+  isConfirming: boolean;
+  onConfirm: (guest: Guest) => void;
+  onDismiss: () => void;
+}
+
+// Full-screen result of a scan, readable at arm's length at the gate
+export const CheckInResultScreen: React.FC<CheckInResultScreenProps> = ({
+  outcome,
+  canCheckIn,
+  isConfirming,
+  onConfirm,
+  onDismiss,
+}) => {
+  if (outcome.kind === "error") {
+    return (
+      <div className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-6 bg-destructive/95 p-6 text-center text-destructive-foreground">
+        <XCircle className="h-24 w-24" />
+        <div className="space-y-2">
+          <p className="text-3xl font-bold">{outcome.title}</p>
+          <p className="text-lg opacity-90">{outcome.message}</p>
+        </div>
+        <Button size="lg" variant="secondary" onClick={onDismiss}>
+          <ScanLine className="h-5 w-5 mr-2" />
+          Escanear otro
+        </Button>
+      </div>
+    );
+  }
+
+  const { guest, note, link } = outcome;
+  const data = asGuestData(guest.guest_data);
+  const document = getGuestField(data, "document");
+  const bloodType = getGuestField(data, "bloodType");
+  const alerts = getGuestAlerts(guest);
+
+  return (
+    <div
+      className={cn(
+        "fixed inset-0 z-50 flex flex-col overflow-y-auto bg-background p-6",
+        guest.confirmed && "bg-warning/10"
+      )}
+    >
+      <div className="flex-1 flex flex-col items-center justify-center gap-6 text-center">
+        {guest.confirmed ? (
+          <div className="flex items-center gap-2 rounded-full bg-warning/20 px-4 py-2 text-warning">
+            <UserCheck className="h-5 w-5" />
+            <span className="font-semibold">
+              Ya ingresó {describeCheckIn(guest)}
+            </span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 rounded-full bg-success/20 px-4 py-2 text-success">
+            <CheckCircle2 className="h-5 w-5" />
+            <span className="font-semibold">Entrada válida</span>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <p className="text-4xl font-bold">
+            {getGuestName(data, guest.guest_id)}
+          </p>
+          {document && (
+            <p className="text-xl text-muted-foreground">DNI {document}</p>
+          )}
+        </div>
+
+        {note && (
+          <p className="flex items-center gap-2 rounded-lg bg-muted px-4 py-2 text-lg">
+            <IdCard className="h-5 w-5 text-primary" />
+            {note}
+          </p>
+        )}
+
+        {link && (
+          <div className="flex items-center gap-2 text-xl">
+            <Users className="h-6 w-6 text-primary" />
+            <span>{link}</span>
+          </div>
+        )}
+
+        {bloodType && (
+          <div className="flex items-center gap-2 text-lg text-muted-foreground">
+            <HeartPulse className="h-5 w-5" />
+            <span>Grupo sanguíneo {bloodType}</span>
+          </div>
+        )}
+
+        {alerts.length > 0 && (
+          <div className="w-full max-w-md space-y-2">
+            {alerts.map((alert) => (
+              <div
+                key={alert.key}
+                className={cn(
+                  "flex items-center gap-3 rounded-lg border p-3 text-left text-lg font-medium",
+                  alert.severity === "danger"
+                    ? "border-destructive/40 bg-destructive/10 text-destructive"
+                    : "border-warning/40 bg-warning/10 text-warning"
+                )}
+              >
+                <AlertTriangle className="h-6 w-6 shrink-0" />
+                {alert.message}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="mx-auto grid w-full max-w-md gap-3 pt-6">
+        {canCheckIn && !guest.confirmed && (
+          <Button
+            className="h-20 text-2xl btn-confirm"
+            disabled={isConfirming}
+            onClick={() => onConfirm(guest)}
+          >
+            <UserCheck className="h-7 w-7 mr-3" />
+            {isConfirming ? "Confirmando..." : "Confirmar ingreso"}
+          </Button>
+        )}
+        <Button size="lg" variant="outline" onClick={onDismiss}>
+          <ScanLine className="h-5 w-5 mr-2" />
+          {guest.confirmed || !canCheckIn ? "Escanear otro" : "Cancelar"}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from "react";
+import { AlertCircle, ArrowRight, Check, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  getTargetColumn,
+  suggestColumnMapping,
+  type ColumnMapping,
+  type ColumnTarget,
+} from "@/lib/columnMapping";
+import { GUEST_FIELDS } from "@/lib/guestFields";
+import type { GuestRow } from "@/lib/guests";
+
+interface ColumnMappingStepProps {
+  headers: string[];
+  rows: GuestRow[];
+  // Mapping remembered from previous uploads of the same event
+  savedMapping: ColumnMapping;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const sampleValue = (rows: GuestRow[], header: string) => {
+  const row = rows.find(
+    (r) => r[header] !== undefined && r[header] !== null && r[header] !== ""
+  );
+  return row ? String(row[header]) : "-";
+};
+
+export const ColumnMappingStep: React.FC<ColumnMappingStepProps> = ({
+  headers,
+  rows,
+  savedMapping,
+  onConfirm,
+  onCancel,
+}) => {
+  const suggestions = useMemo(() => suggestColumnMapping(headers), [headers]);
+
+  const [mapping, setMapping] = useState<ColumnMapping>(() =>
+    Object.fromEntries(
+      headers.map((header) => [
+        header,
+        savedMapping[header] ?? suggestions[header].target,
+      ])
+    )
+  );
+
+  const duplicateTargets = useMemo(() => {
+    const seen = new Map<string, number>();
+    headers.forEach((header) => {
+      const target = getTargetColumn(header, mapping[header]);
+      if (target) seen.set(target, (seen.get(target) ?? 0) + 1);
+    });
+    return new Set([...seen].filter(([, count]) => count > 1).map(([t]) => t));
+  }, [headers, mapping]);
+
+  const handleChange = (header: string, target: ColumnTarget) => {
+    setMapping((prev) => ({ ...prev, [header]: target }));
+  };
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div>
+        <p className="font-semibold">Asignar columnas</p>
+        <p className="text-sm text-muted-foreground">
+          Indicá a qué dato del invitado corresponde cada columna del archivo.
+          El mapeo se recuerda para las próximas cargas de este evento.
+        </p>
+      </div>
+
+      <ScrollArea className="h-80 rounded-lg border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Columna del archivo</TableHead>
+              <TableHead>Ejemplo</TableHead>
+              <TableHead className="w-8" />
+              <TableHead className="min-w-[220px]">Campo del invitado</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {headers.map((header) => {
+              const target = mapping[header];
+              const suggestion = suggestions[header];
+              const column = getTargetColumn(header, target);
+              const isDuplicate = column !== null && duplicateTargets.has(column);
+
+              return (
+                <TableRow key={header}>
+                  <TableCell className="font-medium">{header}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-[180px] truncate">
+                    {sampleValue(rows, header)}
+                  </TableCell>
+                  <TableCell>
+                    <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                  </TableCell>
+                  <TableCell className="space-y-1">
+                    <Select
+                      value={target}
+                      onValueChange={(value) =>
+                        handleChange(header, value as ColumnTarget)
+                      }
+                    >
+                      <SelectTrigger
+                        className={isDuplicate ? "border-destructive" : ""}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="keep">
+                          Mantener como "{header}"
+                        </SelectItem>
+                        <SelectItem value="ignore">No importar</SelectItem>
+                        <SelectSeparator />
+                        {GUEST_FIELDS.map((field) => (
+                          <SelectItem key={field.key} value={field.key}>
+                            {field.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {savedMapping[header] !== undefined ? (
+                      <Badge variant="secondary" className="text-xs px-1 py-0">
+                        Recordado
+                      </Badge>
+                    ) : (
+                      suggestion.score > 0 &&
+                      suggestion.target === target && (
+                        <Badge variant="secondary" className="text-xs px-1 py-0">
+                          Sugerido {Math.round(suggestion.score * 100)}%
+                        </Badge>
+                      )
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+
+      {duplicateTargets.size > 0 && (
+        <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg flex items-start space-x-3">
+          <AlertCircle className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+          <p className="text-destructive text-sm">
+            Hay columnas asignadas al mismo campo: {[...duplicateTargets].join(", ")}
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel}>
+          <X className="h-4 w-4 mr-2" />
+          Cancelar
+        </Button>
+        <Button
+          onClick={() => onConfirm(mapping)}
+          disabled={duplicateTargets.size > 0}
+        >
+          <Check className="h-4 w-4 mr-2" />
+          Continuar
+        </Button>
+      </div>
+    </div>
+  );
+};
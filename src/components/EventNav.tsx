@@ -0,0 +1,116 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import {
+  BarChart3,
+  Bike,
+  ClipboardList,
+  HeartPulse,
+  Keyboard,
+  MapPin,
+  QrCode,
+  Route,
+  ScanLine,
+  ShieldAlert,
+  UtensilsCrossed,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+
+interface EventNavProps {
+  eventId: string;
+}
+
+interface NavItem {
+  to: (eventId: string) => string;
+  label: string;
+  icon: LucideIcon;
+  requires?: "admin" | "checkIn";
+}
+
+const NAV_ITEMS: NavItem[] = [
+  {
+    to: (eventId) => `/checkin?event=${eventId}`,
+    label: "Ingreso rápido",
+    icon: Keyboard,
+    requires: "checkIn",
+  },
+  {
+    to: (eventId) => `/checkin/scan?event=${eventId}`,
+    label: "Escanear QR / DNI",
+    icon: ScanLine,
+    requires: "checkIn",
+  },
+  {
+    to: (eventId) => `/emergency?event=${eventId}`,
+    label: "Emergencias",
+    icon: HeartPulse,
+  },
+  {
+    to: (eventId) => `/dashboard?event=${eventId}`,
+    label: "Estadísticas",
+    icon: BarChart3,
+  },
+  {
+    to: (eventId) => `/events/${eventId}/tickets`,
+    label: "Entradas QR",
+    icon: QrCode,
+    requires: "admin",
+  },
+  {
+    to: (eventId) => `/events/${eventId}/catering`,
+    label: "Cena y catering",
+    icon: UtensilsCrossed,
+  },
+  {
+    to: (eventId) => `/events/${eventId}/motorcycles`,
+    label: "Motos y marcas",
+    icon: Bike,
+  },
+  {
+    to: (eventId) => `/events/${eventId}/places`,
+    label: "Procedencias",
+    icon: MapPin,
+  },
+  {
+    to: (eventId) => `/events/${eventId}/rides`,
+    label: "Rodadas",
+    icon: Route,
+  },
+  {
+    to: (eventId) => `/events/${eventId}/compliance`,
+    label: "Carnet y seguro",
+    icon: ShieldAlert,
+  },
+  {
+    to: (eventId) => `/events/${eventId}/registration`,
+    label: "Formulario de inscripción",
+    icon: ClipboardList,
+    requires: "admin",
+  },
+];
+
+// Links to the event's secondary pages, filtered by role
+export const EventNav: React.FC<EventNavProps> = ({ eventId }) => {
+  const { isAdmin, canCheckIn } = useAuth();
+  const items = NAV_ITEMS.filter(
+    (item) =>
+      !item.requires ||
+      (item.requires === "admin" ? isAdmin : canCheckIn)
+  );
+
+  if (items.length === 0) return null;
+
+  return (
+    <nav className="flex flex-wrap gap-2">
+      {items.map(({ to, label, icon: Icon }) => (
+        <Button key={label} variant="outline" size="sm" asChild>
+          <Link to={to(eventId)}>
+            <Icon className="h-4 w-4 mr-2" />
+            {label}
+          </Link>
+        </Button>
+      ))}
+    </nav>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { CalendarPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useCreateEvent, useEvents } from "@/hooks/use-events";
+
+interface EventSwitcherProps {
+  eventId?: string;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  start_date: "",
+  end_date: "",
+  location: "",
+  logo_url: "",
+  primary_color: "#f97316",
+};
+
+export const EventSwitcher: React.FC<EventSwitcherProps> = ({ eventId }) => {
+  const navigate = useNavigate();
+  const { data: events = [] } = useEvents();
+  const createEvent = useCreateEvent();
+  const { isAdmin } = useAuth();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const { toast } = useToast();
+
+  const updateField =
+    (field: keyof typeof EMPTY_FORM) =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const event = await createEvent.mutateAsync({
+        name: form.name.trim(),
+        start_date: form.start_date || null,
+        end_date: form.end_date || null,
+        location: form.location.trim() || null,
+        logo_url: form.logo_url.trim() || null,
+        primary_color: form.primary_color || null,
+      });
+      setIsDialogOpen(false);
+      setForm(EMPTY_FORM);
+      navigate(`/events/${event.id}`);
+    } catch (error) {
+      console.error("Error creating event:", error);
+      toast({
+        title: "Error al crear el evento",
+        description:
+          (error instanceof Error && error.message) ||
+          "No se pudo crear el evento.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {events.length > 0 && (
+        <Select
+          value={eventId}
+          onValueChange={(value) => navigate(`/events/${value}`)}
+        >
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Elegir evento" />
+          </SelectTrigger>
+          <SelectContent>
+            {events.map((event) => (
+              <SelectItem key={event.id} value={event.id}>
+                {event.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {isAdmin && (
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="icon" title="Nuevo evento">
+              <CalendarPlus className="h-4 w-4" />
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Nuevo evento</DialogTitle>
+                <DialogDescription>
+                  Cada evento tiene su propia lista de invitados.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="event-name">Nombre</Label>
+                <Input
+                  id="event-name"
+                  value={form.name}
+                  onChange={updateField("name")}
+                  placeholder="Encuentro de invierno"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="event-start">Desde</Label>
+                  <Input
+                    id="event-start"
+                    type="date"
+                    value={form.start_date}
+                    onChange={updateField("start_date")}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="event-end">Hasta</Label>
+                  <Input
+                    id="event-end"
+                    type="date"
+                    value={form.end_date}
+                    min={form.start_date || undefined}
+                    onChange={updateField("end_date")}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="event-location">Lugar</Label>
+                <Input
+                  id="event-location"
+                  value={form.location}
+                  onChange={updateField("location")}
+                />
+              </div>
+              <div className="grid grid-cols-[1fr_auto] gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="event-logo">Logo (URL)</Label>
+                  <Input
+                    id="event-logo"
+                    type="url"
+                    value={form.logo_url}
+                    onChange={updateField("logo_url")}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="event-color">Color</Label>
+                  <Input
+                    id="event-color"
+                    type="color"
+                    className="w-16 p-1"
+                    value={form.primary_color}
+                    onChange={updateField("primary_color")}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={createEvent.isPending}>
+                  {createEvent.isPending ? "Creando..." : "Crear evento"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from "react";
+import { CheckCircle2, Undo2 } from "lucide-react";
+import type { GuestEvent } from "@/hooks/use-guest-events";
+
+interface GuestEventItemProps {
+  entry: GuestEvent;
+  // The activity feed names the guest, the per-guest history does not need to
+  showGuest?: boolean;
+}
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString("es-AR", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+export const GuestEventItem: React.FC<GuestEventItemProps> = ({
+  entry,
+  showGuest = false,
+}) => {
+  const isCheckIn = entry.action === "check_in";
+
+  return (
+    <li className="flex items-start gap-3 py-2 text-sm">
+      {isCheckIn ? (
+        <CheckCircle2 className="h-4 w-4 text-success mt-0.5 flex-shrink-0" />
+      ) : (
+        <Undo2 className="h-4 w-4 text-warning mt-0.5 flex-shrink-0" />
+      )}
+      <div className="min-w-0">
+        <p>
+          {showGuest && (
+            <span className="font-semibold">{entry.guest_name ?? "Invitado"} · </span>
+          )}
+          {isCheckIn ? "Confirmado" : "Confirmación cancelada"}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {formatTimestamp(entry.created_at)}
+          {entry.actor_email && ` · ${entry.actor_email}`}
+          {entry.device && ` · ${entry.device}`}
+        </p>
+      </div>
+    </li>
+  );
+};
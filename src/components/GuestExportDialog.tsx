@@ -0,0 +1,247 @@
+import React, { useMemo, useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useEvent } from "@/hooks/use-events";
+import { useMotorcycleCatalogue } from "@/hooks/use-motorcycle-catalogue";
+import { usePlaceOverrides } from "@/hooks/use-place-overrides";
+import { downloadCsv, downloadXlsx, slugify } from "@/lib/download";
+import {
+  buildExportRows,
+  getExportColumns,
+  type ExportColumn,
+  type ExportFormat,
+} from "@/lib/guestExport";
+import type { Guest } from "@/lib/guests";
+
+interface GuestExportDialogProps {
+  eventId: string;
+  // Every guest of the event, in list order
+  guests: Guest[];
+  // The rows left by the table's search and filters
+  visibleGuests: Guest[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Scope = "visible" | "all";
+
+const DELIMITERS = [
+  { value: ";", label: "Punto y coma (Excel en español)" },
+  { value: ",", label: "Coma" },
+  { value: "\t", label: "Tabulación" },
+];
+
+interface ColumnGroupProps {
+  title: string;
+  columns: ExportColumn[];
+  selected: Set<string>;
+  onToggle: (label: string, checked: boolean) => void;
+  onToggleAll: (checked: boolean) => void;
+}
+
+const ColumnGroup: React.FC<ColumnGroupProps> = ({
+  title,
+  columns,
+  selected,
+  onToggle,
+  onToggleAll,
+}) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <p className="text-sm font-medium">{title}</p>
+      <div className="flex gap-1">
+        <Button type="button" variant="ghost" size="sm" onClick={() => onToggleAll(true)}>
+          Todas
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onToggleAll(false)}>
+          Ninguna
+        </Button>
+      </div>
+    </div>
+    <div className="grid gap-2 sm:grid-cols-2">
+      {columns.map((column) => (
+        <label
+          key={column.label}
+          className="flex items-center gap-2 text-sm cursor-pointer"
+        >
+          <Checkbox
+            checked={selected.has(column.label)}
+            onCheckedChange={(checked) => onToggle(column.label, checked === true)}
+          />
+          <span className="truncate" title={column.label}>
+            {column.label}
+          </span>
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+// Downloads the guest list, or the filtered part of it, as CSV or Excel
+export const GuestExportDialog: React.FC<GuestExportDialogProps> = ({
+  eventId,
+  guests,
+  visibleGuests,
+  open,
+  onOpenChange,
+}) => {
+  const { event } = useEvent(eventId);
+  const { catalogue } = useMotorcycleCatalogue();
+  const { overrides } = usePlaceOverrides();
+  const [scope, setScope] = useState<Scope>("visible");
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+  const [delimiter, setDelimiter] = useState(";");
+  // Unticked columns, so ones that show up later are exported by default
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+
+  const columns = useMemo(() => getExportColumns(guests), [guests]);
+  const computedColumns = columns.filter((column) => column.computed);
+  const answerColumns = columns.filter((column) => !column.computed);
+  const selected = new Set(
+    columns.map((column) => column.label).filter((label) => !excluded.has(label))
+  );
+  const rowsToExport = scope === "visible" ? visibleGuests : guests;
+
+  const toggle = (labels: string[], checked: boolean) =>
+    setExcluded((current) => {
+      const next = new Set(current);
+      labels.forEach((label) => (checked ? next.delete(label) : next.add(label)));
+      return next;
+    });
+
+  const handleExport = () => {
+    const rows = buildExportRows(
+      rowsToExport,
+      columns.filter((column) => selected.has(column.label)),
+      {
+        catalogue,
+        placeOverrides: overrides,
+        byId: new Map(guests.map((guest) => [guest.id, guest])),
+      }
+    );
+    const fileName = `invitados-${slugify(event?.name ?? "evento")}`;
+    if (format === "csv") {
+      downloadCsv(rows, `${fileName}.csv`, delimiter);
+    } else {
+      downloadXlsx(rows, `${fileName}.xlsx`);
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Exportar invitados</DialogTitle>
+          <DialogDescription>
+            Incluye el estado de ingreso y los datos normalizados de cada invitado.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Invitados</Label>
+            <RadioGroup
+              value={scope}
+              onValueChange={(value) => setScope(value as Scope)}
+              className="flex flex-wrap gap-6"
+            >
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <RadioGroupItem value="visible" />
+                Los de la vista actual ({visibleGuests.length})
+              </label>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <RadioGroupItem value="all" />
+                Todos ({guests.length})
+              </label>
+            </RadioGroup>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-6">
+            <div className="space-y-2">
+              <Label>Formato</Label>
+              <RadioGroup
+                value={format}
+                onValueChange={(value) => setFormat(value as ExportFormat)}
+                className="flex gap-6"
+              >
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value="xlsx" />
+                  Excel (.xlsx)
+                </label>
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value="csv" />
+                  CSV
+                </label>
+              </RadioGroup>
+            </div>
+            {format === "csv" && (
+              <div className="space-y-2">
+                <Label>Separador</Label>
+                <Select value={delimiter} onValueChange={setDelimiter}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIMITERS.map((option) => (
+                      <SelectItem key={option.label} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <ColumnGroup
+            title="Ingreso y datos normalizados"
+            columns={computedColumns}
+            selected={selected}
+            onToggle={(label, checked) => toggle([label], checked)}
+            onToggleAll={(checked) =>
+              toggle(computedColumns.map((column) => column.label), checked)
+            }
+          />
+          <ColumnGroup
+            title="Respuestas del formulario"
+            columns={answerColumns}
+            selected={selected}
+            onToggle={(label, checked) => toggle([label], checked)}
+            onToggleAll={(checked) =>
+              toggle(answerColumns.map((column) => column.label), checked)
+            }
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleExport}
+            disabled={selected.size === 0 || rowsToExport.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Descargar {rowsToExport.length} invitados
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,52 @@
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { GuestEventItem } from "@/components/GuestEventItem";
+import { useGuestHistory } from "@/hooks/use-guest-events";
+
+interface GuestHistoryDialogProps {
+  // Supabase row id of the guest, null while closed
+  guestId: string | null;
+  guestName: string;
+  onClose: () => void;
+}
+
+export const GuestHistoryDialog: React.FC<GuestHistoryDialogProps> = ({
+  guestId,
+  guestName,
+  onClose,
+}) => {
+  const { data: history = [], isLoading } = useGuestHistory(guestId);
+
+  return (
+    <Dialog open={!!guestId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Historial de ingreso</DialogTitle>
+          <DialogDescription>{guestName}</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-80">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Cargando...</p>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Sin movimientos registrados.
+            </p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {history.map((entry) => (
+                <GuestEventItem key={entry.id} entry={entry} />
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
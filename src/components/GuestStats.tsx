@@ -0,0 +1,70 @@
+import React, { useMemo } from "react";
+import { Bike, Clock, Users, type LucideIcon } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { getAttendanceStats } from "@/lib/companions";
+import type { Guest } from "@/lib/guests";
+
+interface StatCardProps {
+  label: string;
+  value: string;
+  detail: string;
+  icon: LucideIcon;
+  className: string;
+}
+
+const StatCard: React.FC<StatCardProps> = ({
+  label,
+  value,
+  detail,
+  icon: Icon,
+  className,
+}) => (
+  <Card className="card-moto">
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-sm text-muted-foreground">{label}</p>
+        <p className={`text-2xl font-bold ${className}`}>{value}</p>
+        <p className="text-xs text-muted-foreground">{detail}</p>
+      </div>
+      <Icon className={`h-8 w-8 ${className}`} />
+    </div>
+  </Card>
+);
+
+interface GuestStatsProps {
+  guests: Guest[];
+}
+
+// Check-in progress with riders and companions counted separately
+export const GuestStats: React.FC<GuestStatsProps> = ({ guests }) => {
+  const { riders, companions, companionsPending } = useMemo(
+    () => getAttendanceStats(guests),
+    [guests]
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <StatCard
+        label="Pilotos"
+        value={`${riders.confirmed} / ${riders.total}`}
+        detail={`${riders.total - riders.confirmed} pendientes`}
+        icon={Bike}
+        className="text-primary"
+      />
+      <StatCard
+        label="Acompañantes"
+        value={`${companions.confirmed} / ${companions.total}`}
+        detail={`${companions.total - companions.confirmed} pendientes`}
+        icon={Users}
+        className="text-accent"
+      />
+      <StatCard
+        label="Acompañante pendiente"
+        value={String(companionsPending)}
+        detail="Pilotos que ingresaron sin su acompañante"
+        icon={Clock}
+        className="text-warning"
+      />
+    </div>
+  );
+};
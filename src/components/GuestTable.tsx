@@ -1,5 +1,15 @@
-import React, { useState, useMemo, useEffect } from "react";
-import { Search, Users, CheckCircle2, Clock, UserCheck } from "lucide-react";
+import React, { useState, useMemo } from "react";
+import {
+  Search,
+  Users,
+  CheckCircle2,
+  Clock,
+  UserCheck,
+  UserPlus,
+  History,
+  ShieldAlert,
+  Download,
+} from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -12,10 +22,51 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useGuests } from "@/hooks/use-guests";
+import { useMotorcycleCatalogue } from "@/hooks/use-motorcycle-catalogue";
+import { GuestExportDialog } from "@/components/GuestExportDialog";
+import { GuestHistoryDialog } from "@/components/GuestHistoryDialog";
+import { GuestStats } from "@/components/GuestStats";
+import { SyncStatus } from "@/components/SyncStatus";
+import { WalkInDialog } from "@/components/WalkInDialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { describeCheckIn } from "@/lib/checkIn";
+import { checkCompliance } from "@/lib/compliance";
+import {
+  groupWithCompanions,
+  indexCompanions,
+  isCompanionPending,
+} from "@/lib/companions";
+import { GUEST_FIELD_LABELS, getGuestFieldLabel } from "@/lib/guestFields";
+import { asGuestData, getGuestName, ORIGIN_LABELS, type GuestRow } from "@/lib/guests";
+import { formatMotorcycle, getGuestMotorcycle } from "@/lib/motorcycles";
+
+type RowFilter = "all" | "companionPending" | "nonCompliant";
+
+// Select value for "no filter"
+const ALL = "__all";
+const MOTORCYCLE_COLUMN = getGuestFieldLabel("motorcycle");
 
 interface GuestTableProps {
+  eventId: string;
   data: any[];
   headers: string[];
   searchTerm: string;
@@ -23,393 +74,630 @@ interface GuestTableProps {
 }
 
 export const GuestTable: React.FC<GuestTableProps> = ({
+  eventId,
   data,
   headers,
   searchTerm,
   onSearchChange,
 }) => {
-  const [confirmedGuests, setConfirmedGuests] = useState<Set<string>>(
-    new Set()
-  );
-  const [supabaseGuests, setSupabaseGuests] = useState<any[]>([]);
   const [openRow, setOpenRow] = useState<number | null>(null);
   const { toast } = useToast();
+  const { canCheckIn } = useAuth();
+  const [historyGuest, setHistoryGuest] = useState<{
+    id: string;
+    name: string;
+  } | null>(null);
+  const {
+    guests: supabaseGuests,
+    isOnline,
+    isSyncing,
+    pendingCount,
+    sync,
+    checkIn,
+    undoCheckIn,
+  } = useGuests(eventId);
+  const [pendingUndo, setPendingUndo] = useState<string | null>(null);
+  const [isWalkInOpen, setIsWalkInOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [rowFilter, setRowFilter] = useState<RowFilter>("all");
+  const [makeFilter, setMakeFilter] = useState(ALL);
+  const [modelFilter, setModelFilter] = useState(ALL);
+  const { catalogue } = useMotorcycleCatalogue();
 
-  // Load guests from Supabase on component mount
-  useEffect(() => {
-    loadGuestsFromSupabase();
-
-    // Set up real-time subscription
-    const channel = supabase
-      .channel("schema-db-changes")
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "guests",
-        },
-        (payload) => {
-          console.log("Real-time update:", payload);
-          loadGuestsFromSupabase();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
+  const confirmedGuests = useMemo(
+    () =>
+      new Set(supabaseGuests.filter((g) => g.confirmed).map((g) => g.guest_id)),
+    [supabaseGuests]
+  );
 
-  const loadGuestsFromSupabase = async () => {
-    try {
-      const { data: guests, error } = await supabase
-        .from("guests")
-        .select("*")
-        .order("created_at", { ascending: true });
+  // Use Supabase data if available, otherwise use local data
+  const currentData = useMemo(() => {
+    if (supabaseGuests.length === 0) return data;
 
-      if (error) throw error;
+    const companions = indexCompanions(supabaseGuests);
+    const byId = new Map(supabaseGuests.map((g) => [g.id, g]));
+    return groupWithCompanions(supabaseGuests).map((g) => {
+      const rider = g.parent_guest_id ? byId.get(g.parent_guest_id) : undefined;
+      const moto = getGuestMotorcycle(g, catalogue);
+      return {
+        ...asGuestData(g.guest_data),
+        _supabase_id: g.id,
+        _guest_id: g.guest_id,
+        _origin: g.origin,
+        _parent_id: g.parent_guest_id,
+        _rider_name: rider
+          ? getGuestName(asGuestData(rider.guest_data), rider.guest_id)
+          : undefined,
+        _companion_pending: isCompanionPending(g, companions),
+        _compliance: checkCompliance(g).map((issue) => issue.message),
+        _moto: formatMotorcycle(moto),
+        _moto_make: moto?.make ?? undefined,
+        _moto_model: moto?.model ?? undefined,
+      };
+    });
+  }, [supabaseGuests, data, catalogue]);
 
-      if (guests) {
-        setSupabaseGuests(guests);
-        // Update confirmed guests set
-        const confirmed = new Set(
-          guests.filter((g) => g.confirmed).map((g) => g.guest_id)
-        );
-        setConfirmedGuests(confirmed);
+  // Makes and models present in the list, most common first
+  const motoOptions = useMemo(() => {
+    const makes = new Map<string, Map<string, number>>();
+    currentData.forEach((row) => {
+      if (!row._moto_make) return;
+      const models = makes.get(row._moto_make) ?? new Map<string, number>();
+      if (row._moto_model) {
+        models.set(row._moto_model, (models.get(row._moto_model) ?? 0) + 1);
       }
-    } catch (error: any) {
-      console.error("Error loading guests:", error);
-      toast({
-        title: "Error al cargar datos",
-        description:
-          "No se pudieron cargar los invitados desde la base de datos.",
-        variant: "destructive",
-      });
-    }
-  };
-
-  // Use Supabase data if available, otherwise use local data
-  const currentData =
-    supabaseGuests.length > 0
-      ? supabaseGuests.map((g) => ({
-          ...g.guest_data,
-          _supabase_id: g.id,
-          _guest_id: g.guest_id,
-        }))
-      : data;
+      makes.set(row._moto_make, models);
+    });
+    return new Map(
+      [...makes.entries()]
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .map(([make, models]) => [
+          make,
+          [...models.entries()].sort((a, b) => b[1] - a[1]).map(([model]) => model),
+        ])
+    );
+  }, [currentData]);
 
   const filteredData = useMemo(() => {
-    if (!searchTerm.trim()) return currentData;
+    let rows = currentData;
+    if (makeFilter !== ALL) {
+      rows = rows.filter(
+        (row) =>
+          row._moto_make === makeFilter &&
+          (modelFilter === ALL || row._moto_model === modelFilter)
+      );
+    }
+    if (rowFilter === "nonCompliant") {
+      rows = rows.filter((row) => row._compliance?.length > 0);
+    }
+    if (rowFilter === "companionPending") {
+      // The riders waiting for a companion, each followed by that companion
+      const riders = new Set(
+        rows.filter((row) => row._companion_pending).map((row) => row._supabase_id)
+      );
+      rows = rows.filter(
+        (row) => riders.has(row._supabase_id) || riders.has(row._parent_id)
+      );
+    }
+    if (!searchTerm.trim()) return rows;
 
-    return currentData.filter((row) =>
+    return rows.filter((row) =>
       Object.values(row).some((value) =>
         value?.toString().toLowerCase().includes(searchTerm.toLowerCase())
       )
     );
-  }, [currentData, searchTerm]);
+  }, [currentData, searchTerm, rowFilter, makeFilter, modelFilter]);
 
-  const handleConfirmGuest = async (guestId: string) => {
-    try {
-      const isCurrentlyConfirmed = confirmedGuests.has(guestId);
+  // The guests behind the rows, in list order, for the export
+  const listedGuests = useMemo(
+    () => groupWithCompanions(supabaseGuests),
+    [supabaseGuests]
+  );
+  const visibleGuests = useMemo(() => {
+    const byId = new Map(supabaseGuests.map((g) => [g.id, g]));
+    return filteredData.flatMap((row) => byId.get(row._supabase_id) ?? []);
+  }, [supabaseGuests, filteredData]);
 
-      const { error } = await supabase
-        .from("guests")
-        .update({
-          confirmed: !isCurrentlyConfirmed,
-          confirmed_at: !isCurrentlyConfirmed ? new Date().toISOString() : null,
-        })
-        .eq("guest_id", guestId);
+  const companionPendingCount = useMemo(
+    () => currentData.filter((row) => row._companion_pending).length,
+    [currentData]
+  );
+  const nonCompliantCount = useMemo(
+    () => currentData.filter((row) => row._compliance?.length > 0).length,
+    [currentData]
+  );
 
-      if (error) throw error;
+  const toggleRowFilter = (filter: RowFilter) =>
+    setRowFilter((current) => (current === filter ? "all" : filter));
 
-      // Update local state
-      setConfirmedGuests((prev) => {
-        const newSet = new Set(prev);
-        if (newSet.has(guestId)) {
-          newSet.delete(guestId);
-        } else {
-          newSet.add(guestId);
-        }
-        return newSet;
-      });
+  const guestName = (guestId: string) => {
+    const row = currentData.find((r) => r._guest_id === guestId);
+    return row ? getGuestName(row, guestId) : guestId;
+  };
+
+  const handleConfirmGuest = (guestId: string) => {
+    // Undoing is explicit so a double tap never flips a guest back to pending
+    if (confirmedGuests.has(guestId)) {
+      setPendingUndo(guestId);
+      return;
+    }
+    runCheckIn(guestId, true);
+  };
+
+  const runCheckIn = async (guestId: string, confirmed: boolean) => {
+    const name = guestName(guestId);
+    try {
+      const result = confirmed
+        ? await checkIn(guestId)
+        : await undoCheckIn(guestId);
+
+      if (result.status === "already") {
+        toast({
+          title: confirmed ? "Ya había ingresado" : "Ingreso ya cancelado",
+          description: confirmed
+            ? `${name} ya ingresó ${describeCheckIn(result.guest)}.`
+            : `Otro dispositivo ya canceló el ingreso de ${name}.`,
+          variant: confirmed ? "destructive" : "default",
+        });
+        return;
+      }
 
       toast({
-        title: isCurrentlyConfirmed
-          ? "Confirmación cancelada"
-          : "Invitado confirmado",
-        description: `El invitado ${guestId} ha sido ${
-          isCurrentlyConfirmed ? "des" : ""
-        }confirmado.`,
+        title: confirmed ? "Invitado confirmado" : "Confirmación cancelada",
+        description: `${name} ha sido ${confirmed ? "" : "des"}confirmado.${
+          result.status === "queued"
+            ? " Se sincronizará cuando vuelva la conexión."
+            : ""
+        }`,
       });
     } catch (error: any) {
       console.error("Error updating guest:", error);
       toast({
         title: "Error al actualizar",
-        description: "No se pudo actualizar el estado del invitado.",
+        description:
+          error.message || "No se pudo actualizar el estado del invitado.",
         variant: "destructive",
       });
     }
   };
 
+  const openHistory = (row: GuestRow, guestId: string) => {
+    // Only rows already saved to Supabase have a history
+    if (typeof row._supabase_id !== "string") return;
+    setHistoryGuest({ id: row._supabase_id, name: getGuestName(row, guestId) });
+  };
+
   const getGuestId = (row: any, index: number): string => {
-    // If this is from Supabase, use the _guest_id field
+    // Rows from Supabase and freshly imported rows both carry the guest_id
+    // resolved by the uploader's identity columns
     if (row._guest_id) {
       return row._guest_id;
     }
-
-    // Try to find a field that could be an ID
-    const possibleIdFields = [
-      "id",
-      "ID",
-      "Id",
-      "código",
-      "codigo",
-      "Código",
-      "Codigo",
-    ];
-    for (const field of possibleIdFields) {
-      if (
-        row[field] !== undefined &&
-        row[field] !== null &&
-        row[field] !== ""
-      ) {
-        return row[field].toString();
-      }
-    }
-    // If no ID field found, use row index
+    // If no ID is known, use row index
     return `guest_${index}`;
   };
 
-  // 1. Define el array fijo de columnas fuera del componente (o dentro, pero fuera del render)
-  const ALL_COLUMNS = [
-    "DNI",
-    "Apellido y Nombre",
-    "Grupo sanguíneo",
-    "Teléfono",
-    "Venís acompañado",
-    "Apellido y Nombre del acompañante",
-    "DNI Acompañante",
-    "Contacto de Emergencia",
-    "Tenés carnet Vigente?",
-    "Tenés Seguro vigente?",
-    "Cena show día sábado 11 (no incluye bebida)",
-    "Tenés alguna restricción alimentaria?",
-    "Moto en la que venís",
-    "Ciudad de donde nos visitas",
-    "Provincia",
-    "Sos alérgico a algo?",
-    "A que sos alérgico?",
-    "Vas a realizar las rodadas",
-  ];
+  // Canonical guest fields; uploads are mapped onto these in CSVUploader
+  const ALL_COLUMNS = GUEST_FIELD_LABELS;
 
   return (
-    <Card className="p-4 sm:p-6 lg:p-8">
-      <div className="flex flex-col gap-4">
-        {/* Search and actions */}
-        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-          <Input
-            placeholder="Buscar invitado..."
-            value={searchTerm}
-            onChange={(e) => onSearchChange(e.target.value)}
-            className="max-w-sm flex-1"
-          />
-          <Button
-            onClick={() => {}}
-            variant="default"
-            className="whitespace-nowrap"
-          >
-            <UserCheck className="h-4 w-4 mr-2" />
-            Sin confirmar{" "}
-            {
-              filteredData.filter(
-                (row) => !confirmedGuests.has(getGuestId(row, 0))
-              ).length
-            }
-          </Button>
-        </div>
-
-        {/* Guests table */}
-        <Table>
-          <TableHeader>
-            <TableRow className="hidden sm:table-row border-b border-gray-700">
-              <TableHead className="min-w-[50px] text-center hidden sm:table-cell border-r border-gray-700 bg-background">
-                N°
-              </TableHead>
-              <TableHead className="min-w-[120px] text-left border-r border-gray-700 bg-background">
-                Acciones
-              </TableHead>
-              <TableHead className="min-w-[120px] text-left border-r border-gray-700 bg-background">
-                Estado
-              </TableHead>
-              {ALL_COLUMNS.map((header) => (
-                <TableHead
-                  key={header}
-                  className="min-w-[140px] text-left border-r border-gray-700 bg-background"
+    <>
+      {supabaseGuests.length > 0 && <GuestStats guests={supabaseGuests} />}
+      <Card className="p-4 sm:p-6 lg:p-8">
+        <div className="flex flex-col gap-4">
+          {/* Search and actions */}
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <Input
+              placeholder="Buscar invitado..."
+              value={searchTerm}
+              onChange={(e) => onSearchChange(e.target.value)}
+              className="max-w-sm flex-1"
+            />
+            {motoOptions.size > 0 && (
+              <div className="flex gap-2">
+                <Select
+                  value={makeFilter}
+                  onValueChange={(value) => {
+                    setMakeFilter(value);
+                    setModelFilter(ALL);
+                  }}
                 >
-                  {header}
-                </TableHead>
-              ))}
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {filteredData.map((row, index) => {
-              const guestId = getGuestId(row, index);
-              const isConfirmed = confirmedGuests.has(guestId);
-
-              return (
-                <React.Fragment key={index}>
-                  {/* Desktop row */}
-                  <TableRow
-                    className={
-                      "hidden sm:table-row border-b border-gray-700 " +
-                      (isConfirmed ? "bg-success/10 " : "") +
-                      " text-white text-xs sm:text-base"
-                    }
-                  >
-                    <TableCell className="text-center font-bold hidden sm:table-cell border-r border-gray-700">
-                      {index + 1}
-                    </TableCell>
-                    <TableCell className="bg-background z-10 text-white border-r border-gray-700">
-                      <Button
-                        onClick={() => handleConfirmGuest(guestId)}
-                        variant={isConfirmed ? "default" : "outline"}
-                        size="sm"
-                        className={`${
-                          isConfirmed ? "bg-success hover:bg-success/90" : ""
-                        } px-2 py-1 h-auto text-xs sm:text-sm`}
-                      >
-                        <CheckCircle2 className="h-3 w-3 mr-1" />
-                        <span className="hidden sm:inline">
-                          {isConfirmed ? "Confirmado" : "Confirmar"}
-                        </span>
-                        <span className="inline sm:hidden">
-                          {isConfirmed ? "OK" : "OK?"}
-                        </span>
-                      </Button>
-                    </TableCell>
-                    <TableCell className="bg-background z-10 text-white border-r border-gray-700">
-                      <Badge
-                        variant={isConfirmed ? "default" : "secondary"}
-                        className={`${
-                          isConfirmed
-                            ? "bg-success/20 text-success border-success/30"
-                            : ""
-                        } text-xs px-1 py-0`}
-                      >
-                        {isConfirmed ? (
-                          <>
-                            <CheckCircle2 className="h-3 w-3 mr-1" />
-                            Confirmado
-                          </>
-                        ) : (
-                          <>
-                            <Clock className="h-3 w-3 mr-1" />
-                            Pendiente
-                          </>
-                        )}
-                      </Badge>
-                    </TableCell>
-                    {ALL_COLUMNS.map((header) => (
-                      <TableCell
-                        key={header}
-                        className="min-w-[140px] text-white px-2 py-2 sm:px-4 sm:py-2 border-r border-gray-700"
-                        style={{
-                          fontSize: "1rem",
-                          whiteSpace: "normal",
-                          wordBreak: "break-word",
-                        }}
-                      >
-                        {row[header]?.toString() || "-"}
-                      </TableCell>
+                  <SelectTrigger className="w-[150px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todas las marcas</SelectItem>
+                    {[...motoOptions.keys()].map((make) => (
+                      <SelectItem key={make} value={make}>
+                        {make}
+                      </SelectItem>
                     ))}
-                  </TableRow>
+                  </SelectContent>
+                </Select>
+                {makeFilter !== ALL &&
+                  (motoOptions.get(makeFilter)?.length ?? 0) > 0 && (
+                    <Select value={modelFilter} onValueChange={setModelFilter}>
+                      <SelectTrigger className="w-[170px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>Todos los modelos</SelectItem>
+                        {motoOptions.get(makeFilter)!.map((model) => (
+                          <SelectItem key={model} value={model}>
+                            {model}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+              </div>
+            )}
+            <SyncStatus
+              isOnline={isOnline}
+              isSyncing={isSyncing}
+              pendingCount={pendingCount}
+              onSync={sync}
+            />
+            {canCheckIn && (
+              <Button
+                onClick={() => setIsWalkInOpen(true)}
+                variant="outline"
+                className="whitespace-nowrap"
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                Registrar invitado
+              </Button>
+            )}
+            {supabaseGuests.length > 0 && (
+              <Button
+                onClick={() => setIsExportOpen(true)}
+                variant="outline"
+                className="whitespace-nowrap"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Exportar
+              </Button>
+            )}
+            {companionPendingCount > 0 && (
+              <Button
+                onClick={() => toggleRowFilter("companionPending")}
+                variant={rowFilter === "companionPending" ? "default" : "outline"}
+                className="whitespace-nowrap"
+              >
+                <Users className="h-4 w-4 mr-2" />
+                Acompañante pendiente {companionPendingCount}
+              </Button>
+            )}
+            {nonCompliantCount > 0 && (
+              <Button
+                onClick={() => toggleRowFilter("nonCompliant")}
+                variant={rowFilter === "nonCompliant" ? "default" : "outline"}
+                className="whitespace-nowrap"
+              >
+                <ShieldAlert className="h-4 w-4 mr-2" />
+                Sin carnet o seguro {nonCompliantCount}
+              </Button>
+            )}
+            <Button
+              onClick={() => {}}
+              variant="default"
+              className="whitespace-nowrap"
+            >
+              <UserCheck className="h-4 w-4 mr-2" />
+              Sin confirmar{" "}
+              {
+                filteredData.filter(
+                  (row) => !confirmedGuests.has(getGuestId(row, 0))
+                ).length
+              }
+            </Button>
+          </div>
 
-                  {/* Mobile row as accordion */}
-                  <TableRow
-                    className={
-                      "sm:hidden cursor-pointer " +
-                      (isConfirmed ? "bg-success/10 " : "") +
-                      " text-white"
-                    }
-                    onClick={() => setOpenRow(openRow === index ? null : index)}
+          {/* Guests table */}
+          <Table>
+            <TableHeader>
+              <TableRow className="hidden sm:table-row border-b border-gray-700">
+                <TableHead className="min-w-[50px] text-center hidden sm:table-cell border-r border-gray-700 bg-background">
+                  N°
+                </TableHead>
+                <TableHead className="min-w-[120px] text-left border-r border-gray-700 bg-background">
+                  Acciones
+                </TableHead>
+                <TableHead className="min-w-[120px] text-left border-r border-gray-700 bg-background">
+                  Estado
+                </TableHead>
+                {ALL_COLUMNS.map((header) => (
+                  <TableHead
+                    key={header}
+                    className="min-w-[140px] text-left border-r border-gray-700 bg-background"
                   >
-                    <TableCell colSpan={2 + ALL_COLUMNS.length} className="p-0">
-                      <div className="flex flex-col">
-                        {/* Header: solo nombre o id, sin orden */}
-                        <div className="flex items-center justify-between px-3 py-2">
-                          <span className="font-bold text-base">
-                            {row["Nombre"] ||
-                              row["Apellido y Nombre"] ||
-                              guestId}
+                    {header}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredData.map((row, index) => {
+                const guestId = getGuestId(row, index);
+                const isConfirmed = confirmedGuests.has(guestId);
+
+                return (
+                  <React.Fragment key={index}>
+                    {/* Desktop row */}
+                    <TableRow
+                      className={
+                        "hidden sm:table-row border-b border-gray-700 " +
+                        (isConfirmed ? "bg-success/10 " : "") +
+                        " text-white text-xs sm:text-base"
+                      }
+                    >
+                      <TableCell className="text-center font-bold hidden sm:table-cell border-r border-gray-700">
+                        {index + 1}
+                      </TableCell>
+                      <TableCell className="bg-background z-10 text-white border-r border-gray-700">
+                        <Button
+                          onClick={() => handleConfirmGuest(guestId)}
+                          disabled={!canCheckIn}
+                          variant={isConfirmed ? "default" : "outline"}
+                          size="sm"
+                          className={`${
+                            isConfirmed ? "bg-success hover:bg-success/90" : ""
+                          } px-2 py-1 h-auto text-xs sm:text-sm`}
+                        >
+                          <CheckCircle2 className="h-3 w-3 mr-1" />
+                          <span className="hidden sm:inline">
+                            {isConfirmed ? "Confirmado" : "Confirmar"}
                           </span>
-                          <span>{openRow === index ? "▲" : "▼"}</span>
-                        </div>
-                        {/* Confirm button and status */}
-                        <div className="flex items-center gap-2 mb-2 px-3">
+                          <span className="inline sm:hidden">
+                            {isConfirmed ? "OK" : "OK?"}
+                          </span>
+                        </Button>
+                        {row._supabase_id && (
                           <Button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleConfirmGuest(guestId);
-                            }}
-                            variant={isConfirmed ? "default" : "outline"}
+                            onClick={() => openHistory(row, guestId)}
+                            variant="ghost"
                             size="sm"
-                            className={`${
-                              isConfirmed
-                                ? "bg-success hover:bg-success/90"
-                                : ""
-                            } px-2 py-1 h-auto text-xs`}
+                            className="ml-1 px-2 py-1 h-auto"
+                            title="Historial"
                           >
-                            <CheckCircle2 className="h-3 w-3 mr-1" />
-                            {isConfirmed ? "Confirmado" : "Confirmar"}
+                            <History className="h-3 w-3" />
                           </Button>
+                        )}
+                      </TableCell>
+                      <TableCell className="bg-background z-10 text-white border-r border-gray-700">
+                        <Badge
+                          variant={isConfirmed ? "default" : "secondary"}
+                          className={`${
+                            isConfirmed
+                              ? "bg-success/20 text-success border-success/30"
+                              : ""
+                          } text-xs px-1 py-0`}
+                        >
+                          {isConfirmed ? (
+                            <>
+                              <CheckCircle2 className="h-3 w-3 mr-1" />
+                              Confirmado
+                            </>
+                          ) : (
+                            <>
+                              <Clock className="h-3 w-3 mr-1" />
+                              Pendiente
+                            </>
+                          )}
+                        </Badge>
+                        {/* Rows from a local file have no origin yet */}
+                        {(row._origin === "walk-in" || row._origin === "online") && (
+                          <Badge variant="outline" className="ml-1 text-xs px-1 py-0">
+                            {ORIGIN_LABELS[row._origin]}
+                          </Badge>
+                        )}
+                        {row._parent_id && (
                           <Badge
-                            variant={isConfirmed ? "default" : "secondary"}
-                            className={`${
-                              isConfirmed
-                                ? "bg-success/20 text-success border-success/30"
-                                : ""
-                            } text-xs px-1 py-0`}
+                            variant="outline"
+                            className="ml-1 text-xs px-1 py-0"
+                            title={row._rider_name && `Acompañante de ${row._rider_name}`}
                           >
-                            {isConfirmed ? (
-                              <>
-                                <CheckCircle2 className="h-3 w-3 mr-1" />
-                                Confirmado
-                              </>
-                            ) : (
-                              <>
-                                <Clock className="h-3 w-3 mr-1" />
-                                Pendiente
-                              </>
-                            )}
+                            Acompañante
+                          </Badge>
+                        )}
+                        {row._companion_pending && (
+                          <Badge
+                            variant="secondary"
+                            className="ml-1 text-xs px-1 py-0 bg-warning/20 text-warning border-warning/30"
+                          >
+                            Falta acompañante
                           </Badge>
-                        </div>
-                        {/* Accordion content */}
-                        {openRow === index && (
-                          <div className="bg-background/80 px-3 pb-3 rounded-b">
-                            <div className="grid grid-cols-1 gap-1">
-                              {ALL_COLUMNS.map((header) => (
-                                <div key={header} className="flex text-xs py-1">
-                                  <span className="font-semibold min-w-[110px] text-orange-400">
-                                    {header}:
-                                  </span>
-                                  <span className="ml-2 break-words text-white">
-                                    {row[header]?.toString() || "-"}
-                                  </span>
-                                </div>
-                              ))}
-                            </div>
-                          </div>
                         )}
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                </React.Fragment>
-              );
-            })}
-          </TableBody>
-        </Table>
-      </div>
-    </Card>
+                        {row._compliance?.length > 0 && (
+                          <Badge
+                            variant="secondary"
+                            className="ml-1 text-xs px-1 py-0 bg-destructive/20 text-destructive border-destructive/30"
+                            title={row._compliance.join(". ")}
+                          >
+                            <ShieldAlert className="h-3 w-3 mr-1" />
+                            Carnet/seguro
+                          </Badge>
+                        )}
+                      </TableCell>
+                      {ALL_COLUMNS.map((header) => (
+                        <TableCell
+                          key={header}
+                          className="min-w-[140px] text-white px-2 py-2 sm:px-4 sm:py-2 border-r border-gray-700"
+                          style={{
+                            fontSize: "1rem",
+                            whiteSpace: "normal",
+                            wordBreak: "break-word",
+                          }}
+                        >
+                          {row[header]?.toString() || "-"}
+                          {header === MOTORCYCLE_COLUMN && row._moto && (
+                            <span className="block text-xs text-muted-foreground">
+                              {row._moto}
+                            </span>
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+
+                    {/* Mobile row as accordion */}
+                    <TableRow
+                      className={
+                        "sm:hidden cursor-pointer " +
+                        (isConfirmed ? "bg-success/10 " : "") +
+                        " text-white"
+                      }
+                      onClick={() => setOpenRow(openRow === index ? null : index)}
+                    >
+                      <TableCell colSpan={2 + ALL_COLUMNS.length} className="p-0">
+                        <div className="flex flex-col">
+                          {/* Header: solo nombre o id, sin orden */}
+                          <div className="flex items-center justify-between px-3 py-2">
+                            <span className="font-bold text-base">
+                              {row["Nombre"] ||
+                                row["Apellido y Nombre"] ||
+                                guestId}
+                              {row._rider_name && (
+                                <span className="block text-xs font-normal text-muted-foreground">
+                                  Acompañante de {row._rider_name}
+                                </span>
+                              )}
+                              {row._companion_pending && (
+                                <span className="block text-xs font-normal text-warning">
+                                  Falta acompañante
+                                </span>
+                              )}
+                              {row._compliance?.length > 0 && (
+                                <span className="block text-xs font-normal text-destructive">
+                                  {row._compliance.join(". ")}
+                                </span>
+                              )}
+                            </span>
+                            <span>{openRow === index ? "▲" : "▼"}</span>
+                          </div>
+                          {/* Confirm button and status */}
+                          <div className="flex items-center gap-2 mb-2 px-3">
+                            <Button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleConfirmGuest(guestId);
+                              }}
+                              disabled={!canCheckIn}
+                              variant={isConfirmed ? "default" : "outline"}
+                              size="sm"
+                              className={`${
+                                isConfirmed
+                                  ? "bg-success hover:bg-success/90"
+                                  : ""
+                              } px-2 py-1 h-auto text-xs`}
+                            >
+                              <CheckCircle2 className="h-3 w-3 mr-1" />
+                              {isConfirmed ? "Confirmado" : "Confirmar"}
+                            </Button>
+                            <Badge
+                              variant={isConfirmed ? "default" : "secondary"}
+                              className={`${
+                                isConfirmed
+                                  ? "bg-success/20 text-success border-success/30"
+                                  : ""
+                              } text-xs px-1 py-0`}
+                            >
+                              {isConfirmed ? (
+                                <>
+                                  <CheckCircle2 className="h-3 w-3 mr-1" />
+                                  Confirmado
+                                </>
+                              ) : (
+                                <>
+                                  <Clock className="h-3 w-3 mr-1" />
+                                  Pendiente
+                                </>
+                              )}
+                            </Badge>
+                            {row._supabase_id && (
+                              <Button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  openHistory(row, guestId);
+                                }}
+                                variant="ghost"
+                                size="sm"
+                                className="px-2 py-1 h-auto"
+                                title="Historial"
+                              >
+                                <History className="h-3 w-3" />
+                              </Button>
+                            )}
+                          </div>
+                          {/* Accordion content */}
+                          {openRow === index && (
+                            <div className="bg-background/80 px-3 pb-3 rounded-b">
+                              <div className="grid grid-cols-1 gap-1">
+                                {ALL_COLUMNS.map((header) => (
+                                  <div key={header} className="flex text-xs py-1">
+                                    <span className="font-semibold min-w-[110px] text-orange-400">
+                                      {header}:
+                                    </span>
+                                    <span className="ml-2 break-words text-white">
+                                      {row[header]?.toString() || "-"}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  </React.Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        <WalkInDialog
+          eventId={eventId}
+          open={isWalkInOpen}
+          onOpenChange={setIsWalkInOpen}
+        />
+
+        <GuestExportDialog
+          eventId={eventId}
+          guests={listedGuests}
+          visibleGuests={visibleGuests}
+          open={isExportOpen}
+          onOpenChange={setIsExportOpen}
+        />
+
+        <GuestHistoryDialog
+          guestId={historyGuest?.id ?? null}
+          guestName={historyGuest?.name ?? ""}
+          onClose={() => setHistoryGuest(null)}
+        />
+
+        <AlertDialog
+          open={!!pendingUndo}
+          onOpenChange={(open) => !open && setPendingUndo(null)}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>¿Cancelar el ingreso?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {pendingUndo && guestName(pendingUndo)} volverá a figurar como
+                pendiente.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Volver</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => pendingUndo && runCheckIn(pendingUndo, false)}
+              >
+                Cancelar ingreso
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </Card>
+    </>
   );
 };
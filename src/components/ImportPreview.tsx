@@ -0,0 +1,314 @@
+import React, { useMemo, useState } from "react";
+import { AlertCircle, ArrowRight, Check, Columns3, ShieldAlert, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { checkRowCompliance } from "@/lib/compliance";
+import {
+  countImportChanges,
+  type ImportChangeType,
+  type ImportPlan,
+} from "@/lib/guestImport";
+import { isIdentityValid } from "@/lib/guestIdentity";
+import { asGuestData, getGuestName } from "@/lib/guests";
+
+interface ImportPreviewProps {
+  plan: ImportPlan;
+  fileName: string;
+  isApplying: boolean;
+  onApply: () => void;
+  onCancel: () => void;
+  onEditMapping?: () => void;
+  onIdentityChange: (columns: string[]) => void;
+}
+
+const MAX_LISTED = 5;
+
+type PreviewFilter = ImportChangeType | "removed" | "nonCompliant" | "all";
+
+const TYPE_LABELS: Record<ImportChangeType, string> = {
+  new: "Nuevo",
+  updated: "Actualizado",
+  unchanged: "Sin cambios",
+};
+
+const TYPE_CLASSES: Record<ImportChangeType, string> = {
+  new: "bg-success/20 text-success border-success/30",
+  updated: "bg-warning/20 text-warning border-warning/30",
+  unchanged: "",
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined || value === null || value === ""
+    ? "-"
+    : String(value);
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({
+  plan,
+  fileName,
+  isApplying,
+  onApply,
+  onCancel,
+  onEditMapping,
+  onIdentityChange,
+}) => {
+  const counts = useMemo(() => countImportChanges(plan), [plan]);
+  const [filter, setFilter] = useState<PreviewFilter>(
+    counts.new + counts.updated > 0 ? "all" : "unchanged"
+  );
+
+  // Rules are checked on the file rows, before anything is saved
+  const complianceIssues = useMemo(
+    () =>
+      new Map(
+        plan.entries.map((entry) => [
+          entry.guestId,
+          checkRowCompliance(entry.row).map((issue) => issue.message),
+        ])
+      ),
+    [plan]
+  );
+  const nonCompliantCount = useMemo(
+    () =>
+      plan.entries.filter((entry) => complianceIssues.get(entry.guestId)!.length > 0)
+        .length,
+    [plan, complianceIssues]
+  );
+
+  const visibleEntries = useMemo(() => {
+    if (filter === "all") {
+      return plan.entries.filter((entry) => entry.type !== "unchanged");
+    }
+    if (filter === "nonCompliant") {
+      return plan.entries.filter(
+        (entry) => complianceIssues.get(entry.guestId)!.length > 0
+      );
+    }
+    return plan.entries.filter((entry) => entry.type === filter);
+  }, [plan, filter, complianceIssues]);
+
+  const hasChanges = counts.new + counts.updated > 0;
+  const identityValid = isIdentityValid(plan.validation);
+
+  const toggleIdentityColumn = (column: string) => {
+    const { identityColumns } = plan;
+    onIdentityChange(
+      identityColumns.includes(column)
+        ? identityColumns.filter((c) => c !== column)
+        : [...identityColumns, column]
+    );
+  };
+
+  const filters: { value: PreviewFilter; label: string; count: number }[] = [
+    { value: "all", label: "Cambios", count: counts.new + counts.updated },
+    { value: "new", label: "Nuevos", count: counts.new },
+    { value: "updated", label: "Actualizados", count: counts.updated },
+    { value: "unchanged", label: "Sin cambios", count: counts.unchanged },
+    { value: "removed", label: "No están en el archivo", count: plan.removed.length },
+    { value: "nonCompliant", label: "Sin carnet o seguro", count: nonCompliantCount },
+  ];
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div>
+        <p className="font-semibold">Vista previa de {fileName}</p>
+        <p className="text-sm text-muted-foreground">
+          {plan.entries.length} filas leídas. Revisá los cambios antes de
+          aplicarlos a la lista de ingreso.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">
+          Identificador del invitado{" "}
+          <span className="font-normal text-muted-foreground">
+            {plan.identityColumns.length === 0
+              ? "(ID generado a partir del nombre y teléfono)"
+              : plan.identityColumns.length > 1
+              ? "(combinación de columnas)"
+              : ""}
+          </span>
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {plan.headers.map((header) => (
+            <Button
+              key={header}
+              size="sm"
+              variant={plan.identityColumns.includes(header) ? "default" : "outline"}
+              className="h-7 px-2 text-xs"
+              onClick={() => toggleIdentityColumn(header)}
+              disabled={isApplying}
+            >
+              {header}
+            </Button>
+          ))}
+        </div>
+        {!identityValid && (
+          <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg flex items-start space-x-3">
+            <AlertCircle className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+            <div className="text-destructive text-sm space-y-1">
+              {plan.validation.emptyRows.length > 0 && (
+                <p>
+                  {plan.validation.emptyRows.length} filas sin identificador (
+                  {plan.validation.emptyRows
+                    .slice(0, MAX_LISTED)
+                    .map((index) => `fila ${index + 2}`)
+                    .join(", ")}
+                  {plan.validation.emptyRows.length > MAX_LISTED ? "..." : ""})
+                </p>
+              )}
+              {plan.validation.duplicates.slice(0, MAX_LISTED).map((duplicate) => (
+                <p key={duplicate.guestId}>
+                  "{duplicate.guestId}" repetido en{" "}
+                  {duplicate.rows.map((index) => `fila ${index + 2}`).join(", ")}
+                </p>
+              ))}
+              {plan.validation.duplicates.length > MAX_LISTED && (
+                <p>
+                  y {plan.validation.duplicates.length - MAX_LISTED} identificadores
+                  repetidos más
+                </p>
+              )}
+              <p className="text-xs">
+                Elegí otra columna o una combinación (por ejemplo DNI + nombre).
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {filters.map(({ value, label, count }) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={filter === value ? "default" : "outline"}
+            onClick={() => setFilter(value)}
+          >
+            {label}
+            <Badge variant="secondary" className="ml-2 px-1 py-0 text-xs">
+              {count}
+            </Badge>
+          </Button>
+        ))}
+      </div>
+
+      <ScrollArea className="h-72 rounded-lg border border-border">
+        {filter === "removed" ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ID</TableHead>
+                <TableHead>Invitado</TableHead>
+                <TableHead>Estado</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.removed.map((guest) => (
+                <TableRow key={guest.id}>
+                  <TableCell className="text-xs">{guest.guest_id}</TableCell>
+                  <TableCell>
+                    {getGuestName(asGuestData(guest.guest_data), guest.guest_id)}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {guest.confirmed ? "Confirmado" : "Pendiente"} • se conserva
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ID</TableHead>
+                <TableHead>Invitado</TableHead>
+                <TableHead>Cambio</TableHead>
+                <TableHead>Detalle</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleEntries.map((entry) => (
+                <TableRow key={entry.guestId}>
+                  <TableCell className="text-xs align-top">
+                    {entry.guestId}
+                  </TableCell>
+                  <TableCell className="align-top">
+                    {getGuestName(entry.row, entry.guestId)}
+                  </TableCell>
+                  <TableCell className="align-top">
+                    <Badge
+                      variant={entry.type === "unchanged" ? "secondary" : "default"}
+                      className={`${TYPE_CLASSES[entry.type]} text-xs px-1 py-0`}
+                    >
+                      {TYPE_LABELS[entry.type]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-xs space-y-1">
+                    {entry.changes.map((change) => (
+                      <div key={change.field} className="flex flex-wrap items-center gap-1">
+                        <span className="font-semibold text-orange-400">
+                          {change.field}:
+                        </span>
+                        <span className="line-through text-muted-foreground">
+                          {formatValue(change.before)}
+                        </span>
+                        <ArrowRight className="h-3 w-3" />
+                        <span>{formatValue(change.after)}</span>
+                      </div>
+                    ))}
+                    {complianceIssues.get(entry.guestId)!.map((message) => (
+                      <div key={message} className="flex items-center gap-1 text-destructive">
+                        <ShieldAlert className="h-3 w-3" />
+                        {message}
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </ScrollArea>
+
+      <div className="flex justify-end gap-2">
+        {onEditMapping && (
+          <Button
+            variant="outline"
+            onClick={onEditMapping}
+            disabled={isApplying}
+            className="mr-auto"
+          >
+            <Columns3 className="h-4 w-4 mr-2" />
+            Editar columnas
+          </Button>
+        )}
+        <Button variant="ghost" onClick={onCancel} disabled={isApplying}>
+          <X className="h-4 w-4 mr-2" />
+          Cancelar
+        </Button>
+        <Button
+          onClick={onApply}
+          disabled={
+            isApplying ||
+            !identityValid ||
+            (!hasChanges && plan.removed.length === 0)
+          }
+        >
+          <Check className="h-4 w-4 mr-2" />
+          {isApplying
+            ? "Aplicando..."
+            : `Aplicar ${counts.new + counts.updated} cambios`}
+        </Button>
+      </div>
+    </div>
+  );
+};
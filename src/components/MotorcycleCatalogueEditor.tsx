@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Plus, RotateCcw, Save, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useMotorcycleCatalogue,
+  useSaveMotorcycleCatalogue,
+} from "@/hooks/use-motorcycle-catalogue";
+import { useToast } from "@/hooks/use-toast";
+import { normalizeText } from "@/lib/columnMapping";
+import {
+  DEFAULT_MOTORCYCLE_CATALOGUE,
+  type MotorcycleModel,
+} from "@/lib/motorcycleCatalogue";
+
+interface EditableModel {
+  id: number;
+  make: string;
+  model: string;
+  displacement: string;
+  aliases: string;
+}
+
+let nextId = 0;
+
+const toEditable = (entry: MotorcycleModel): EditableModel => ({
+  id: nextId++,
+  make: entry.make,
+  model: entry.model,
+  displacement: entry.displacement ? String(entry.displacement) : "",
+  aliases: entry.aliases.join(", "),
+});
+
+const fromEditable = (entry: EditableModel): MotorcycleModel => ({
+  make: entry.make.trim(),
+  model: entry.model.trim(),
+  displacement: Number(entry.displacement) > 0 ? Math.round(Number(entry.displacement)) : null,
+  aliases: entry.aliases
+    .split(",")
+    .map((alias) => alias.trim())
+    .filter(Boolean),
+});
+
+const prepareCatalogue = (rows: EditableModel[]) => {
+  const catalogue = rows
+    .map(fromEditable)
+    .filter((entry) => entry.make || entry.model);
+  const seen = new Set<string>();
+  const duplicates: string[] = [];
+  catalogue.forEach((entry) => {
+    const key = normalizeText(`${entry.make} ${entry.model}`);
+    if (seen.has(key)) duplicates.push(`${entry.make} ${entry.model}`);
+    seen.add(key);
+  });
+  return {
+    catalogue,
+    incomplete: catalogue.filter((entry) => !entry.make || !entry.model).length,
+    duplicates,
+  };
+};
+
+const isDefaultCatalogue = (catalogue: MotorcycleModel[]) =>
+  JSON.stringify(catalogue) === JSON.stringify(DEFAULT_MOTORCYCLE_CATALOGUE);
+
+// Admin editor for the make/model list the bikes are normalized against
+export const MotorcycleCatalogueEditor: React.FC = () => {
+  const { catalogue, isCustom, isLoading } = useMotorcycleCatalogue();
+  const saveCatalogue = useSaveMotorcycleCatalogue();
+  const [rows, setRows] = useState<EditableModel[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [query, setQuery] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isLoading && !isDirty) setRows(catalogue.map(toEditable));
+  }, [catalogue, isLoading, isDirty]);
+
+  const visibleRows = useMemo(() => {
+    const term = normalizeText(query);
+    if (!term) return rows;
+    return rows.filter((row) =>
+      normalizeText(`${row.make} ${row.model} ${row.aliases}`).includes(term)
+    );
+  }, [rows, query]);
+
+  const edit = (updater: (rows: EditableModel[]) => EditableModel[]) => {
+    setRows(updater);
+    setIsDirty(true);
+  };
+
+  const updateRow =
+    (id: number, field: keyof Omit<EditableModel, "id">) =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      edit((prev) =>
+        prev.map((row) => (row.id === id ? { ...row, [field]: e.target.value } : row))
+      );
+
+  const addRow = () => {
+    setQuery("");
+    edit((prev) => [
+      { id: nextId++, make: "", model: "", displacement: "", aliases: "" },
+      ...prev,
+    ]);
+  };
+
+  const handleSave = async () => {
+    const { catalogue: cleaned, incomplete, duplicates } = prepareCatalogue(rows);
+    if (incomplete > 0 || duplicates.length > 0) {
+      toast({
+        title: "Revisá el catálogo",
+        description:
+          incomplete > 0
+            ? `${incomplete} modelos no tienen marca o nombre.`
+            : `Modelos repetidos: ${duplicates.join(", ")}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      await saveCatalogue.mutateAsync(isDefaultCatalogue(cleaned) ? null : cleaned);
+      setIsDirty(false);
+      toast({
+        title: "Catálogo guardado",
+        description: `${cleaned.length} modelos. Normalizá las motos para aplicar los cambios.`,
+      });
+    } catch (error) {
+      console.error("Error saving motorcycle catalogue:", error);
+      toast({
+        title: "Error al guardar el catálogo",
+        description:
+          (error instanceof Error && error.message) ||
+          "No se pudo guardar el catálogo.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[180px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Buscar marca, modelo o alias..."
+            className="pl-9"
+          />
+        </div>
+        <Button variant="outline" onClick={addRow}>
+          <Plus className="h-4 w-4 mr-2" />
+          Agregar modelo
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() =>
+            edit(() => DEFAULT_MOTORCYCLE_CATALOGUE.map(toEditable))
+          }
+          disabled={!isCustom && !isDirty}
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Restaurar original
+        </Button>
+        <Button onClick={handleSave} disabled={!isDirty || saveCatalogue.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          {saveCatalogue.isPending ? "Guardando..." : "Guardar"}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Los alias son otras formas en que los pilotos escriben el modelo,
+        separadas por comas (por ejemplo "cb190" para la CB 190R).
+        {isCustom ? " El catálogo fue editado." : " Es el catálogo original."}
+      </p>
+
+      <ScrollArea className="h-[420px] rounded-md border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[150px]">Marca</TableHead>
+              <TableHead className="w-[180px]">Modelo</TableHead>
+              <TableHead className="w-[90px]">cc</TableHead>
+              <TableHead>Alias</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.map((row) => (
+              <TableRow key={row.id}>
+                <TableCell className="p-1">
+                  <Input value={row.make} onChange={updateRow(row.id, "make")} />
+                </TableCell>
+                <TableCell className="p-1">
+                  <Input value={row.model} onChange={updateRow(row.id, "model")} />
+                </TableCell>
+                <TableCell className="p-1">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={row.displacement}
+                    onChange={updateRow(row.id, "displacement")}
+                  />
+                </TableCell>
+                <TableCell className="p-1">
+                  <Input value={row.aliases} onChange={updateRow(row.id, "aliases")} />
+                </TableCell>
+                <TableCell className="p-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Quitar modelo"
+                    onClick={() =>
+                      edit((prev) => prev.filter((r) => r.id !== row.id))
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useEvent } from "@/hooks/use-events";
+
+interface PageHeaderProps {
+  eventId: string;
+  title: string;
+  // Defaults to the event's guest list
+  backTo?: string;
+  children?: React.ReactNode;
+}
+
+// Header for the secondary pages of an event, with a way back to the list
+export const PageHeader: React.FC<PageHeaderProps> = ({
+  eventId,
+  title,
+  backTo,
+  children,
+}) => {
+  const { event } = useEvent(eventId);
+
+  return (
+    <header
+      className="sticky top-0 z-40 bg-background/80 backdrop-blur-lg border-b border-border print:hidden"
+      style={
+        event?.primary_color
+          ? { borderBottomColor: event.primary_color }
+          : undefined
+      }
+    >
+      <div className="container mx-auto px-4 py-3 flex flex-wrap items-center gap-3">
+        <Button variant="ghost" size="icon" asChild title="Volver">
+          <Link to={backTo ?? `/events/${eventId}`}>
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-lg font-bold text-primary truncate">{title}</h1>
+          {event && (
+            <p className="text-xs text-muted-foreground truncate">
+              {event.name}
+            </p>
+          )}
+        </div>
+        {children && (
+          <div className="flex flex-wrap items-center gap-2">{children}</div>
+        )}
+      </div>
+    </header>
+  );
+};
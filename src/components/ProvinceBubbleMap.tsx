@@ -0,0 +1,127 @@
+import React, { useMemo } from "react";
+import { ARGENTINA_OUTLINE } from "@/lib/argentinaGeo";
+import type { ProvinceCount } from "@/lib/places";
+
+interface ProvinceBubbleMapProps {
+  provinces: ProvinceCount[];
+  // Where the event takes place, marked with a star
+  venue?: { lat: number; lng: number } | null;
+  className?: string;
+}
+
+// Degrees of longitude shrink with latitude; this is their size at
+// the middle of the country
+const LNG_SCALE = Math.cos((38 * Math.PI) / 180);
+const UNITS_PER_DEGREE = 20;
+const PADDING = 20;
+const MAX_RADIUS = 28;
+const MIN_RADIUS = 5;
+
+const rings = ARGENTINA_OUTLINE;
+const lngs = rings.flat().map(([lng]) => lng);
+const lats = rings.flat().map(([, lat]) => lat);
+const minLng = Math.min(...lngs);
+const maxLat = Math.max(...lats);
+const width =
+  (Math.max(...lngs) - minLng) * LNG_SCALE * UNITS_PER_DEGREE + PADDING * 2;
+const height = (maxLat - Math.min(...lats)) * UNITS_PER_DEGREE + PADDING * 2;
+
+// Plain equirectangular projection: accurate enough for one country
+const project = (lng: number, lat: number): [number, number] => [
+  (lng - minLng) * LNG_SCALE * UNITS_PER_DEGREE + PADDING,
+  (maxLat - lat) * UNITS_PER_DEGREE + PADDING,
+];
+
+const outlinePath = rings
+  .map(
+    (ring) =>
+      ring
+        .map(([lng, lat], index) => {
+          const [x, y] = project(lng, lat);
+          return `${index === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+        })
+        .join("") + "Z"
+  )
+  .join("");
+
+/**
+ * The outline of Argentina with a bubble on each province's centre, sized
+ * by its riders. There are no province borders: it's a bubble map, drawn
+ * from the bundled outline so it works without a connection.
+ */
+export const ProvinceBubbleMap: React.FC<ProvinceBubbleMapProps> = ({
+  provinces,
+  venue,
+  className,
+}) => {
+  const max = Math.max(1, ...provinces.map((entry) => entry.riders));
+  // Small bubbles on top, so a big province doesn't hide its neighbours
+  const bubbles = useMemo(
+    () => [...provinces].sort((a, b) => b.riders - a.riders),
+    [provinces]
+  );
+  const venuePoint = venue ? project(venue.lng, venue.lat) : null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width.toFixed(0)} ${height.toFixed(0)}`}
+      className={className}
+      role="img"
+      aria-label="Mapa de Argentina con los pilotos de cada provincia"
+    >
+      <path
+        d={outlinePath}
+        fill="hsl(var(--muted))"
+        stroke="hsl(var(--border))"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+      />
+      {bubbles.map((entry) => {
+        const [x, y] = project(entry.lng, entry.lat);
+        // Area, not radius, follows the count
+        const radius =
+          MIN_RADIUS + Math.sqrt(entry.riders / max) * (MAX_RADIUS - MIN_RADIUS);
+        return (
+          <g key={entry.province}>
+            <title>{`${entry.province}: ${entry.riders} pilotos`}</title>
+            <circle
+              cx={x}
+              cy={y}
+              r={radius}
+              fill="hsl(var(--primary))"
+              fillOpacity={0.65}
+              stroke="hsl(var(--primary))"
+            />
+            {radius >= 11 && (
+              <text
+                x={x}
+                y={y}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fontSize={11}
+                fontWeight={600}
+                fill="hsl(var(--primary-foreground))"
+              >
+                {entry.riders}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      {venuePoint && (
+        <text
+          x={venuePoint[0]}
+          y={venuePoint[1]}
+          textAnchor="middle"
+          dominantBaseline="central"
+          fontSize={22}
+          fill="hsl(var(--accent))"
+          stroke="hsl(var(--background))"
+          strokeWidth={1}
+        >
+          <title>Lugar del evento</title>★
+        </text>
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1,50 @@
+import React from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+
+interface RequireAuthProps {
+  children: React.ReactNode;
+}
+
+export const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
+  const { session, hasAccess, isLoading, user, signOut } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground animate-pulse">Cargando...</p>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  // Signed in but no role assigned yet by an admin
+  if (!hasAccess) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <Card className="card-moto max-w-sm p-6 text-center space-y-4">
+          <ShieldAlert className="h-10 w-10 text-warning mx-auto" />
+          <div>
+            <p className="font-semibold">Sin acceso</p>
+            <p className="text-sm text-muted-foreground">
+              La cuenta {user?.email} todavía no tiene un rol asignado. Pedile
+              acceso a un administrador del evento.
+            </p>
+          </div>
+          <Button variant="outline" onClick={signOut}>
+            Cerrar sesión
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
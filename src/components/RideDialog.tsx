@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useSaveRide } from "@/hooks/use-rides";
+import { useToast } from "@/hooks/use-toast";
+import {
+  fromDateTimeLocal,
+  toDateTimeLocal,
+  type Ride,
+} from "@/lib/rides";
+
+interface RideDialogProps {
+  eventId: string;
+  // Edits this ride; creates a new one when missing
+  ride?: Ride;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (ride: Ride) => void;
+}
+
+const toForm = (ride?: Ride) => ({
+  name: ride?.name ?? "",
+  departs_at: toDateTimeLocal(ride?.departs_at ?? null),
+  marshal: ride?.marshal ?? "",
+  capacity: ride?.capacity ? String(ride.capacity) : "",
+});
+
+export const RideDialog: React.FC<RideDialogProps> = ({
+  eventId,
+  ride,
+  open,
+  onOpenChange,
+  onSaved,
+}) => {
+  const saveRide = useSaveRide(eventId);
+  const [form, setForm] = useState(() => toForm(ride));
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setForm(toForm(ride));
+  }, [open, ride]);
+
+  const updateField =
+    (field: keyof ReturnType<typeof toForm>) =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const saved = await saveRide.mutateAsync({
+        id: ride?.id,
+        name: form.name.trim(),
+        departs_at: fromDateTimeLocal(form.departs_at),
+        marshal: form.marshal.trim() || null,
+        capacity: form.capacity ? Number(form.capacity) : null,
+      });
+      onOpenChange(false);
+      onSaved?.(saved);
+    } catch (error) {
+      console.error("Error saving ride:", error);
+      toast({
+        title: "Error al guardar la rodada",
+        description:
+          (error instanceof Error && error.message) ||
+          "No se pudo guardar la rodada.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{ride ? "Editar rodada" : "Nueva rodada"}</DialogTitle>
+            <DialogDescription>
+              Los pilotos anotados se agregan desde la planilla de la rodada.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="ride-name">Recorrido</Label>
+            <Input
+              id="ride-name"
+              value={form.name}
+              onChange={updateField("name")}
+              placeholder="Camino de las Altas Cumbres"
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ride-departs">Salida</Label>
+              <Input
+                id="ride-departs"
+                type="datetime-local"
+                value={form.departs_at}
+                onChange={updateField("departs_at")}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ride-capacity">Cupo</Label>
+              <Input
+                id="ride-capacity"
+                type="number"
+                min={1}
+                value={form.capacity}
+                onChange={updateField("capacity")}
+                placeholder="Sin límite"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ride-marshal">Responsable</Label>
+            <Input
+              id="ride-marshal"
+              value={form.marshal}
+              onChange={updateField("marshal")}
+              placeholder="Nombre y teléfono del marshal"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={saveRide.isPending}>
+              {saveRide.isPending ? "Guardando..." : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
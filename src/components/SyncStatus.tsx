@@ -0,0 +1,48 @@
+import React from "react";
+import { CloudOff, RefreshCw, Wifi } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+interface SyncStatusProps {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  onSync: () => void;
+}
+
+export const SyncStatus: React.FC<SyncStatusProps> = ({
+  isOnline,
+  isSyncing,
+  pendingCount,
+  onSync,
+}) => (
+  <div className="flex items-center gap-2">
+    <Badge
+      variant="secondary"
+      className={`${
+        isOnline
+          ? "bg-success/20 text-success border-success/30"
+          : "bg-warning/20 text-warning border-warning/30"
+      } text-xs`}
+    >
+      {isOnline ? (
+        <Wifi className="h-3 w-3 mr-1" />
+      ) : (
+        <CloudOff className="h-3 w-3 mr-1" />
+      )}
+      {isOnline ? "En línea" : "Sin conexión"}
+    </Badge>
+    {pendingCount > 0 && (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onSync}
+        disabled={isSyncing || !isOnline}
+        title="Sincronizar ahora"
+      >
+        <RefreshCw className={`h-3 w-3 mr-1 ${isSyncing ? "animate-spin" : ""}`} />
+        {pendingCount} pendientes
+      </Button>
+    )}
+  </div>
+);
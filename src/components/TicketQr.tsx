@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from "react";
+import { renderTicketQr } from "@/lib/tickets";
+import { cn } from "@/lib/utils";
+
+interface TicketQrProps {
+  qrToken: string;
+  size?: number;
+  className?: string;
+}
+
+export const TicketQr: React.FC<TicketQrProps> = ({
+  qrToken,
+  size = 160,
+  className,
+}) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    renderTicketQr({ qr_token: qrToken }, size * 2).then((url) => {
+      if (!cancelled) setSrc(url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [qrToken, size]);
+
+  return src ? (
+    <img
+      src={src}
+      alt="Código QR de la entrada"
+      width={size}
+      height={size}
+      className={cn("rounded bg-white", className)}
+    />
+  ) : (
+    <div
+      style={{ width: size, height: size }}
+      className={cn("rounded bg-muted animate-pulse", className)}
+    />
+  );
+};
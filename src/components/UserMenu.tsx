@@ -0,0 +1,70 @@
+import React, { useState } from "react";
+import { LogOut, MonitorSmartphone, UserCircle, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { UserRolesDialog } from "@/components/UserRolesDialog";
+import { ROLE_LABELS, useAuth } from "@/hooks/use-auth";
+import { getDeviceName, setDeviceName } from "@/lib/device";
+
+export const UserMenu: React.FC = () => {
+  const { user, roles, isAdmin, signOut } = useAuth();
+  const [isRolesOpen, setIsRolesOpen] = useState(false);
+  const [deviceName, setDeviceNameState] = useState(getDeviceName);
+
+  const handleRenameDevice = () => {
+    const name = window.prompt(
+      "Nombre de este dispositivo o puerta (se registra en cada ingreso)",
+      deviceName
+    );
+    if (name === null) return;
+    setDeviceName(name);
+    setDeviceNameState(getDeviceName());
+  };
+
+  if (!user) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" title={user.email}>
+            <UserCircle className="h-5 w-5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>
+            <p className="truncate">{user.email}</p>
+            <p className="text-xs font-normal text-muted-foreground">
+              {roles.map((role) => ROLE_LABELS[role]).join(", ")}
+            </p>
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={handleRenameDevice}>
+            <MonitorSmartphone className="h-4 w-4 mr-2" />
+            {deviceName}
+          </DropdownMenuItem>
+          {isAdmin && (
+            <DropdownMenuItem onSelect={() => setIsRolesOpen(true)}>
+              <Users className="h-4 w-4 mr-2" />
+              Usuarios y roles
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => signOut()}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Cerrar sesión
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {isAdmin && (
+        <UserRolesDialog open={isRolesOpen} onOpenChange={setIsRolesOpen} />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from "react";
+import { Trash2, UserPlus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ROLE_LABELS, useAuth, type AppRole } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+
+interface UserRolesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface UserRoleEntry {
+  user_id: string;
+  email: string;
+  role: AppRole;
+}
+
+export const UserRolesDialog: React.FC<UserRolesDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<UserRoleEntry[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<AppRole>("staff");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadRoles = async () => {
+    const { data, error } = await supabase.rpc("list_user_roles");
+    if (error) {
+      console.error("Error loading roles:", error);
+      toast({
+        title: "Error al cargar usuarios",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setEntries(data ?? []);
+  };
+
+  useEffect(() => {
+    if (open) loadRoles();
+  }, [open]);
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const { error } = await supabase.rpc("set_user_role", {
+      _email: email.trim(),
+      _role: role,
+    });
+    setIsSaving(false);
+
+    if (error) {
+      toast({
+        title: "No se pudo asignar el rol",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setEmail("");
+    loadRoles();
+  };
+
+  const handleRemove = async (userId: string) => {
+    const { error } = await supabase.rpc("remove_user_role", {
+      _user_id: userId,
+    });
+    if (error) {
+      toast({
+        title: "No se pudo quitar el acceso",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    loadRoles();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Usuarios y roles</DialogTitle>
+          <DialogDescription>
+            El usuario tiene que haberse registrado antes de asignarle un rol.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleAssign} className="flex gap-2">
+          <Input
+            type="email"
+            placeholder="email@ejemplo.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as AppRole)}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Constants.public.Enums.app_role.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {ROLE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" size="icon" disabled={isSaving} title="Asignar rol">
+            <UserPlus className="h-4 w-4" />
+          </Button>
+        </form>
+
+        <ul className="divide-y divide-border">
+          {entries.map((entry) => (
+            <li
+              key={`${entry.user_id}-${entry.role}`}
+              className="flex items-center justify-between py-2 text-sm"
+            >
+              <span className="truncate">{entry.email}</span>
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{ROLE_LABELS[entry.role]}</Badge>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Quitar acceso"
+                  disabled={entry.user_id === user?.id}
+                  onClick={() => handleRemove(entry.user_id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+};
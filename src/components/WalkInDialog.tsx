@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from "react";
+import { useForm, type Control } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/hooks/use-auth";
+import { useEvent } from "@/hooks/use-events";
+import { useMotorcycleCatalogue } from "@/hooks/use-motorcycle-catalogue";
+import { useToast } from "@/hooks/use-toast";
+import { getDeviceName } from "@/lib/device";
+import { parseIdentityColumns } from "@/lib/guestIdentity";
+import type { Guest } from "@/lib/guests";
+import {
+  EMPTY_WALK_IN,
+  registerWalkIn,
+  walkInSchema,
+  type WalkInValues,
+} from "@/lib/walkIns";
+
+type TextKey = {
+  [K in keyof WalkInValues]: WalkInValues[K] extends string ? K : never;
+}[keyof WalkInValues];
+
+type FlagKey = {
+  [K in keyof WalkInValues]: WalkInValues[K] extends boolean ? K : never;
+}[keyof WalkInValues];
+
+interface FieldProps<K> {
+  control: Control<WalkInValues>;
+  name: K;
+  label: string;
+}
+
+const TextField: React.FC<FieldProps<TextKey> & { inputMode?: "numeric" | "tel" }> = ({
+  control,
+  name,
+  label,
+  inputMode,
+}) => (
+  <FormField
+    control={control}
+    name={name}
+    render={({ field }) => (
+      <FormItem>
+        <FormLabel>{label}</FormLabel>
+        <FormControl>
+          <Input {...field} inputMode={inputMode} autoComplete="off" />
+        </FormControl>
+        <FormMessage />
+      </FormItem>
+    )}
+  />
+);
+
+const FlagField: React.FC<FieldProps<FlagKey>> = ({ control, name, label }) => (
+  <FormField
+    control={control}
+    name={name}
+    render={({ field }) => (
+      <FormItem className="flex items-center justify-between gap-4 rounded-lg border border-border p-3">
+        <FormLabel className="!mt-0">{label}</FormLabel>
+        <FormControl>
+          <Switch checked={field.value} onCheckedChange={field.onChange} />
+        </FormControl>
+      </FormItem>
+    )}
+  />
+);
+
+interface WalkInDialogProps {
+  eventId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Prefilled from what the volunteer already typed in the search box
+  initialValues?: Partial<WalkInValues>;
+  onRegistered?: (guest: Guest) => void;
+}
+
+export const WalkInDialog: React.FC<WalkInDialogProps> = ({
+  eventId,
+  open,
+  onOpenChange,
+  initialValues,
+  onRegistered,
+}) => {
+  const { user } = useAuth();
+  const { catalogue } = useMotorcycleCatalogue();
+  const { event } = useEvent(eventId);
+  const { toast } = useToast();
+  const [checkInNow, setCheckInNow] = useState(true);
+  const form = useForm<WalkInValues>({
+    resolver: zodResolver(walkInSchema),
+    defaultValues: EMPTY_WALK_IN,
+  });
+  const { control, watch, reset, handleSubmit, formState } = form;
+
+  useEffect(() => {
+    if (open) {
+      reset({ ...EMPTY_WALK_IN, ...initialValues });
+      setCheckInNow(true);
+    }
+  }, [open, initialValues, reset]);
+
+  const onSubmit = async (values: WalkInValues) => {
+    if (!navigator.onLine) {
+      toast({
+        title: "Sin conexión",
+        description: "Registrar invitados nuevos requiere conexión.",
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      const guest = await registerWalkIn(eventId, values, {
+        checkIn: checkInNow,
+        userId: user?.id ?? null,
+        device: getDeviceName(),
+        catalogue,
+        identityColumns: parseIdentityColumns(event?.identity_columns),
+      });
+      toast({
+        title: "Invitado registrado",
+        description: `${values.fullName} fue agregado${
+          checkInNow ? " y confirmado" : ""
+        }.`,
+      });
+      onRegistered?.(guest);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error registering walk-in:", error);
+      toast({
+        title: "Error al registrar",
+        description:
+          (error instanceof Error && error.message) ||
+          "No se pudo registrar al invitado.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <Form {...form}>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Registrar invitado</DialogTitle>
+              <DialogDescription>
+                Para quienes llegan sin haber completado el formulario.
+              </DialogDescription>
+            </DialogHeader>
+
+            <ScrollArea className="max-h-[60vh] pr-4">
+              <div className="space-y-6">
+                <section className="grid gap-4 sm:grid-cols-2">
+                  <TextField control={control} name="fullName" label="Apellido y nombre" />
+                  <TextField control={control} name="document" label="DNI" inputMode="numeric" />
+                  <TextField control={control} name="phone" label="Teléfono" inputMode="tel" />
+                  <TextField control={control} name="emergencyContact" label="Contacto de emergencia" />
+                  <TextField control={control} name="city" label="Ciudad" />
+                  <TextField control={control} name="province" label="Provincia" />
+                  <TextField control={control} name="bloodType" label="Grupo sanguíneo" />
+                  <TextField control={control} name="motorcycle" label="Moto" />
+                </section>
+
+                <section className="space-y-3">
+                  <FlagField control={control} name="hasCompanion" label="Viene acompañado" />
+                  {watch("hasCompanion") && (
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <TextField control={control} name="companionName" label="Nombre del acompañante" />
+                      <TextField
+                        control={control}
+                        name="companionDocument"
+                        label="DNI del acompañante"
+                        inputMode="numeric"
+                      />
+                    </div>
+                  )}
+                </section>
+
+                <section className="grid gap-3 sm:grid-cols-2">
+                  <FlagField control={control} name="license" label="Carnet vigente" />
+                  <FlagField control={control} name="insurance" label="Seguro vigente" />
+                  <FlagField control={control} name="dinner" label="Cena show" />
+                  <FlagField control={control} name="rides" label="Participa de las rodadas" />
+                </section>
+
+                <section className="space-y-3">
+                  <TextField
+                    control={control}
+                    name="dietaryRestriction"
+                    label="Restricción alimentaria"
+                  />
+                  <FlagField control={control} name="isAllergic" label="Es alérgico" />
+                  {watch("isAllergic") && (
+                    <TextField control={control} name="allergies" label="¿A qué es alérgico?" />
+                  )}
+                </section>
+              </div>
+            </ScrollArea>
+
+            <DialogFooter className="flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="walk-in-check-in"
+                  checked={checkInNow}
+                  onCheckedChange={(checked) => setCheckInNow(checked === true)}
+                />
+                <Label htmlFor="walk-in-check-in">Confirmar ingreso ahora</Label>
+              </div>
+              <Button type="submit" disabled={formState.isSubmitting}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                {formState.isSubmitting ? "Registrando..." : "Registrar"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export const appSettingQueryKey = (key: string) => ["app-settings", key] as const;
+
+export const fetchAppSetting = async (key: string) => {
+  const { data, error } = await supabase
+    .from("app_settings")
+    .select("value")
+    .eq("key", key)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.value ?? null;
+};
+
+// null goes back to the default shipped with the app
+export const saveAppSetting = async (key: string, value: Json | null) => {
+  const { error } =
+    value === null
+      ? await supabase.from("app_settings").delete().eq("key", key)
+      : await supabase.from("app_settings").upsert({ key, value });
+  if (error) throw error;
+};
+
+// The stored value, or null while the shipped default applies
+export function useAppSetting(key: string) {
+  return useQuery({
+    queryKey: appSettingQueryKey(key),
+    queryFn: () => fetchAppSetting(key),
+    staleTime: 5 * 60_000,
+  });
+}
@@ -0,0 +1,134 @@
+import * as React from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
+
+export type AppRole = Enums<"app_role">;
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: "Administrador",
+  staff: "Staff de ingreso",
+  viewer: "Solo lectura",
+  medic: "Primeros auxilios",
+};
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  roles: AppRole[];
+  isLoading: boolean;
+  isAdmin: boolean;
+  // Admins and staff may check guests in; viewers only read
+  canCheckIn: boolean;
+  // First-aid staff only get the emergency view
+  isMedic: boolean;
+  hasAccess: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = React.createContext<AuthContextValue | undefined>(undefined);
+
+const ROLES_KEY = "moto-evento:roles";
+
+// Roles last loaded for this user on this device
+const getKnownRoles = (userId: string): AppRole[] => {
+  try {
+    const stored: unknown = JSON.parse(
+      localStorage.getItem(`${ROLES_KEY}:${userId}`) ?? "[]"
+    );
+    return Array.isArray(stored)
+      ? stored.filter((role): role is AppRole => role in ROLE_LABELS)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+// Falls back to the last known roles, so staff who reload the page at a
+// gate without signal aren't locked out of check-in
+const fetchRoles = async (userId: string): Promise<AppRole[]> => {
+  const { data, error } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error loading roles:", error);
+    return getKnownRoles(userId);
+  }
+  const roles = (data ?? []).map((row) => row.role);
+  localStorage.setItem(`${ROLES_KEY}:${userId}`, JSON.stringify(roles));
+  return roles;
+};
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = React.useState<Session | null>(null);
+  const [roles, setRoles] = React.useState<AppRole[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const queryClient = useQueryClient();
+
+  React.useEffect(() => {
+    let latest = 0;
+
+    // Session and roles change together, so a signed-in user never shows
+    // up without access while the roles load
+    const applySession = async (next: Session | null) => {
+      const call = ++latest;
+      const nextRoles = next ? await fetchRoles(next.user.id) : [];
+      // A newer auth change won the race
+      if (call !== latest) return;
+      setSession(next);
+      setRoles(nextRoles);
+      setIsLoading(false);
+    };
+
+    const { data: listener } = supabase.auth.onAuthStateChange(
+      (_event, next) => {
+        // Defer Supabase calls out of the auth callback to avoid deadlocks
+        setTimeout(() => applySession(next), 0);
+      }
+    );
+
+    supabase.auth.getSession().then(({ data }) => applySession(data.session));
+
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  const value = React.useMemo<AuthContextValue>(() => {
+    const isAdmin = roles.includes("admin");
+    return {
+      session,
+      user: session?.user ?? null,
+      roles,
+      isLoading,
+      isAdmin,
+      canCheckIn: isAdmin || roles.includes("staff"),
+      isMedic: roles.includes("medic"),
+      hasAccess: roles.length > 0,
+      signIn: async (email, password) => {
+        const { error } = await supabase.auth.signInWithPassword({
+          email,
+          password,
+        });
+        if (error) throw error;
+      },
+      signOut: async () => {
+        await supabase.auth.signOut();
+        // Cached queries belong to the previous user
+        queryClient.clear();
+      },
+    };
+  }, [session, roles, isLoading, queryClient]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const context = React.useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
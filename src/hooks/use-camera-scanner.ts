@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from "react";
+import { getCodeReader, type CodeReader } from "@/lib/codeScanner";
+
+const SCAN_INTERVAL_MS = 250;
+// The same code stays in front of the camera for a while after a read
+const REPEAT_COOLDOWN_MS = 3_000;
+
+interface CameraScannerOptions {
+  enabled: boolean;
+  onDetect: (text: string) => void;
+}
+
+/**
+ * Streams the rear camera into a <video> and decodes a frame a few times
+ * per second, reporting each code once until it leaves the view. DNI
+ * barcodes are only read where the browser has a native BarcodeDetector.
+ */
+export function useCameraScanner({ enabled, onDetect }: CameraScannerOptions) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectRef = useRef(onDetect);
+  const [error, setError] = useState<string | null>(null);
+  const [isActive, setIsActive] = useState(false);
+  const [readsDni, setReadsDni] = useState(false);
+
+  onDetectRef.current = onDetect;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout>;
+    let stopped = false;
+    let last = { text: "", at: 0 };
+    let reader: CodeReader;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped) return;
+      if (video && video.readyState >= video.HAVE_ENOUGH_DATA) {
+        const text = await reader
+          .decode(video, video.videoWidth, video.videoHeight)
+          .catch(() => null);
+        if (stopped) return;
+        const now = Date.now();
+        if (text) {
+          if (text !== last.text || now - last.at > REPEAT_COOLDOWN_MS) {
+            onDetectRef.current(text);
+          }
+          last = { text, at: now };
+        }
+      }
+      timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    (async () => {
+      try {
+        if (!navigator.mediaDevices?.getUserMedia) {
+          throw new Error("Este navegador no permite usar la cámara.");
+        }
+        reader = await getCodeReader();
+        setReadsDni(reader.readsDni);
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+          audio: false,
+        });
+        if (stopped) {
+          // Cleanup ran while the permission prompt was open
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        const video = videoRef.current!;
+        video.srcObject = stream;
+        await video.play();
+        setError(null);
+        setIsActive(true);
+        scan();
+      } catch (err) {
+        console.error("Error starting camera:", err);
+        setError(
+          err instanceof DOMException && err.name === "NotAllowedError"
+            ? "Permiso de cámara denegado."
+            : err instanceof Error
+            ? err.message
+            : "No se pudo iniciar la cámara."
+        );
+      }
+    })();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+      setIsActive(false);
+    };
+  }, [enabled]);
+
+  return { videoRef, error, isActive, readsDni };
+}
@@ -0,0 +1,71 @@
+import { useCallback, useState } from "react";
+import { useGuests } from "@/hooks/use-guests";
+import { useToast } from "@/hooks/use-toast";
+import { describeCheckIn } from "@/lib/checkIn";
+import { checkCompliance } from "@/lib/compliance";
+import { asGuestData, getGuestName, type Guest } from "@/lib/guests";
+
+// useGuests rejects with plain { message } outcomes as well as Errors
+const getErrorMessage = (error: unknown) =>
+  typeof error === "object" &&
+  error !== null &&
+  "message" in error &&
+  typeof error.message === "string"
+    ? error.message
+    : "";
+
+/**
+ * Guest list plus a one-shot confirm for the gate stations (scanner and
+ * keyboard), with the same feedback GuestTable gives.
+ */
+export function useCheckInStation(eventId: string) {
+  const guestsState = useGuests(eventId);
+  const { checkIn } = guestsState;
+  const [isConfirming, setIsConfirming] = useState(false);
+  const { toast } = useToast();
+
+  const confirm = useCallback(
+    async (guest: Guest) => {
+      const name = getGuestName(asGuestData(guest.guest_data), guest.guest_id);
+      setIsConfirming(true);
+      try {
+        const result = await checkIn(guest.guest_id);
+        if (result.status === "already") {
+          toast({
+            title: "Ya había ingresado",
+            description: `${name} ya ingresó ${describeCheckIn(result.guest)}.`,
+            variant: "destructive",
+          });
+          return false;
+        }
+        const issues = checkCompliance(guest).map((issue) => `${issue.message}.`);
+        toast({
+          title: "Invitado confirmado",
+          description: [
+            `${name} ha sido confirmado.`,
+            result.status === "queued" && "Se sincronizará cuando vuelva la conexión.",
+            ...issues,
+          ]
+            .filter(Boolean)
+            .join(" "),
+        });
+        return true;
+      } catch (error) {
+        console.error("Error updating guest:", error);
+        toast({
+          title: "Error al actualizar",
+          description:
+            getErrorMessage(error) ||
+            "No se pudo actualizar el estado del invitado.",
+          variant: "destructive",
+        });
+        return false;
+      } finally {
+        setIsConfirming(false);
+      }
+    },
+    [checkIn, toast]
+  );
+
+  return { ...guestsState, confirm, isConfirming };
+}
@@ -0,0 +1,82 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type {
+  Tables,
+  TablesInsert,
+  TablesUpdate,
+} from "@/integrations/supabase/types";
+
+export type MotoEvent = Tables<"events">;
+
+const LAST_EVENT_KEY = "moto-evento:last-event";
+
+export const eventsQueryKey = ["events"] as const;
+
+export function useEvents() {
+  return useQuery({
+    queryKey: eventsQueryKey,
+    queryFn: async (): Promise<MotoEvent[]> => {
+      const { data, error } = await supabase
+        .from("events")
+        .select("*")
+        .order("start_date", { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+}
+
+export function useEvent(eventId: string | undefined) {
+  const { data: events, ...rest } = useEvents();
+  return {
+    ...rest,
+    event: events?.find((event) => event.id === eventId),
+  };
+}
+
+export function useCreateEvent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (event: TablesInsert<"events">) => {
+      const { data, error } = await supabase
+        .from("events")
+        .insert(event)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: eventsQueryKey });
+    },
+  });
+}
+
+export function useUpdateEvent(eventId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changes: TablesUpdate<"events">) => {
+      const { data, error } = await supabase
+        .from("events")
+        .update(changes)
+        .eq("id", eventId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: eventsQueryKey });
+    },
+  });
+}
+
+export const getLastEventId = () => localStorage.getItem(LAST_EVENT_KEY);
+
+export const setLastEventId = (eventId: string) =>
+  localStorage.setItem(LAST_EVENT_KEY, eventId);
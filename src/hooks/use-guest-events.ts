@@ -0,0 +1,73 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type GuestEvent = Tables<"guest_events">;
+
+const ACTIVITY_FEED_LIMIT = 50;
+
+export function useGuestHistory(guestId: string | null) {
+  return useQuery({
+    queryKey: ["guest-events", "guest", guestId],
+    enabled: !!guestId,
+    queryFn: async (): Promise<GuestEvent[]> => {
+      const { data, error } = await supabase
+        .from("guest_events")
+        .select("*")
+        .eq("guest_id", guestId!)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+}
+
+export function useActivityFeed(eventId: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`guest-events-${eventId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "guest_events",
+          filter: `event_id=eq.${eventId}`,
+        },
+        (payload) => {
+          const entry = payload.new as GuestEvent;
+          queryClient.setQueryData<GuestEvent[]>(
+            ["guest-events", "event", eventId],
+            (prev = []) => [entry, ...prev].slice(0, ACTIVITY_FEED_LIMIT)
+          );
+          queryClient.invalidateQueries({
+            queryKey: ["guest-events", "guest", entry.guest_id],
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, queryClient]);
+
+  return useQuery({
+    queryKey: ["guest-events", "event", eventId],
+    queryFn: async (): Promise<GuestEvent[]> => {
+      const { data, error } = await supabase
+        .from("guest_events")
+        .select("*")
+        .eq("event_id", eventId)
+        .order("created_at", { ascending: false })
+        .limit(ACTIVITY_FEED_LIMIT);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+}
@@ -0,0 +1,443 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { getDeviceName } from "@/lib/device";
+import type { Guest } from "@/lib/guests";
+import {
+  cacheGuests,
+  enqueueOperation,
+  getCachedGuests,
+  getPendingOperations,
+  removeOperation,
+  type OutboxOperation,
+} from "@/lib/offlineStore";
+
+export type CheckInResult =
+  | { status: "synced"; guest: Guest }
+  | { status: "queued" }
+  // Another device already left the guest in the requested state
+  | { status: "already"; guest: Guest };
+
+const SYNC_INTERVAL_MS = 30_000;
+// Full refetch to catch anything realtime missed, e.g. deletes during a drop
+const RECONCILE_INTERVAL_MS = 5 * 60_000;
+const CACHE_DEBOUNCE_MS = 1_000;
+
+const isNetworkError = (error: unknown) =>
+  !navigator.onLine ||
+  error instanceof TypeError ||
+  /failed to fetch|network|load failed/i.test(
+    (error as { message?: string } | null)?.message ?? ""
+  );
+
+// Pending outbox operations win over the last server snapshot
+const applyOperations = (guests: Guest[], operations: OutboxOperation[]) => {
+  if (operations.length === 0) return guests;
+  const latest = new Map(operations.map((op) => [op.guestId, op]));
+  return guests.map((guest) => {
+    const op = latest.get(guest.guest_id);
+    return op
+      ? {
+          ...guest,
+          confirmed: op.confirmed,
+          confirmed_at: op.confirmedAt,
+          confirmed_by: op.confirmedBy,
+          confirmed_device: op.device,
+        }
+      : guest;
+  });
+};
+
+const pushOperation = (op: OutboxOperation, expectedUpdatedAt?: string) => {
+  // Only flips a guest that is still in the opposite state, so repeating
+  // an operation is a no-op instead of a toggle
+  let query = supabase
+    .from("guests")
+    .update({
+      confirmed: op.confirmed,
+      confirmed_at: op.confirmedAt,
+      confirmed_by: op.confirmedBy,
+      confirmed_device: op.device,
+    })
+    .eq("event_id", op.eventId)
+    .eq("guest_id", op.guestId)
+    .eq("confirmed", !op.confirmed);
+
+  if (expectedUpdatedAt) {
+    query = query.eq("updated_at", expectedUpdatedAt);
+  }
+  return query.select();
+};
+
+type OperationOutcome =
+  | { applied: boolean; guest: Guest; error?: undefined }
+  | { error: { message: string }; applied?: undefined; guest?: undefined };
+
+/**
+ * Applies a check-in change with optimistic concurrency on `updated_at`.
+ * When nothing matched, the current row tells whether another device got
+ * there first or the row merely changed, in which case it is retried once.
+ */
+const resolveOperation = async (
+  op: OutboxOperation,
+  expectedUpdatedAt?: string,
+  retry = true
+): Promise<OperationOutcome> => {
+  const { data, error } = await pushOperation(op, expectedUpdatedAt);
+  if (error) return { error };
+  if (data && data.length > 0) return { applied: true, guest: data[0] };
+
+  const { data: current, error: fetchError } = await supabase
+    .from("guests")
+    .select("*")
+    .eq("event_id", op.eventId)
+    .eq("guest_id", op.guestId)
+    .maybeSingle();
+
+  if (fetchError) return { error: fetchError };
+  if (!current) return { error: { message: "El invitado ya no existe." } };
+  if (current.confirmed === op.confirmed) return { applied: false, guest: current };
+  if (retry) return resolveOperation(op, current.updated_at, false);
+  return { error: { message: "El invitado fue modificado por otro dispositivo." } };
+};
+
+const byCreatedAt = (a: Guest, b: Guest) =>
+  a.created_at.localeCompare(b.created_at);
+
+// Replaces rows by id and appends new ones, keeping the import order. A
+// late realtime echo never overwrites a newer copy of the same row.
+const mergeGuests = (current: Guest[], incoming: Guest[]) => {
+  if (incoming.length === 0) return current;
+  const byId = new Map(current.map((guest) => [guest.id, guest]));
+  incoming.forEach((guest) => {
+    const known = byId.get(guest.id);
+    if (!known || guest.updated_at >= known.updated_at) byId.set(guest.id, guest);
+  });
+  return [...byId.values()].sort(byCreatedAt);
+};
+
+const latestUpdate = (guests: Guest[]) =>
+  guests.reduce<string | null>(
+    (latest, guest) =>
+      !latest || guest.updated_at > latest ? guest.updated_at : latest,
+    null
+  );
+
+/**
+ * Guest list for an event, cached in IndexedDB. Check-ins made without
+ * connectivity go to a local outbox and are replayed once back online.
+ * Realtime changes are applied row by row; a periodic full fetch and a
+ * backfill after channel drops keep the local copy honest.
+ */
+export function useGuests(eventId: string) {
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const syncingRef = useRef(false);
+  // Last known server state and queued operations; `guests` is both combined
+  const serverGuestsRef = useRef<Guest[]>([]);
+  const pendingRef = useRef<OutboxOperation[]>([]);
+  const cacheTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const publish = useCallback(() => {
+    setGuests(applyOperations(serverGuestsRef.current, pendingRef.current));
+
+    // Coalesce cache writes during bursts of realtime updates
+    clearTimeout(cacheTimerRef.current);
+    cacheTimerRef.current = setTimeout(() => {
+      cacheGuests(eventId, serverGuestsRef.current).catch((error) =>
+        console.error("Error caching guests:", error)
+      );
+    }, CACHE_DEBOUNCE_MS);
+  }, [eventId]);
+
+  // Without IndexedDB (private mode, blocked storage) there is no outbox,
+  // but the server list still shows
+  const readPending = useCallback(async () => {
+    const operations = await getPendingOperations(eventId).catch((error) => {
+      console.error("Error reading offline outbox:", error);
+      return [] as OutboxOperation[];
+    });
+    pendingRef.current = operations;
+    setPendingCount(operations.length);
+    return operations;
+  }, [eventId]);
+
+  const loadGuests = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("guests")
+        .select("*")
+        .eq("event_id", eventId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      serverGuestsRef.current = data ?? [];
+      await readPending();
+      publish();
+      setIsOnline(true);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        // Keep showing the cached list
+        setIsOnline(false);
+        return;
+      }
+      console.error("Error loading guests:", error);
+      toast({
+        title: "Error al cargar datos",
+        description:
+          "No se pudieron cargar los invitados desde la base de datos.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId, publish, readPending, toast]);
+
+  // Fetches only rows changed since the newest one we hold. Deletions are
+  // picked up by the periodic full reconciliation instead.
+  const backfill = useCallback(async () => {
+    const since = latestUpdate(serverGuestsRef.current);
+    if (!since) return loadGuests();
+
+    const { data, error } = await supabase
+      .from("guests")
+      .select("*")
+      .eq("event_id", eventId)
+      .gte("updated_at", since);
+
+    if (error) {
+      if (!isNetworkError(error)) console.error("Error backfilling guests:", error);
+      return;
+    }
+    serverGuestsRef.current = mergeGuests(serverGuestsRef.current, data ?? []);
+    publish();
+  }, [eventId, loadGuests, publish]);
+
+  const applyRealtimeChange = useCallback(
+    (payload: RealtimePostgresChangesPayload<Guest>) => {
+      if (payload.eventType === "DELETE") {
+        const deletedId = (payload.old as Partial<Guest>).id;
+        serverGuestsRef.current = serverGuestsRef.current.filter(
+          (guest) => guest.id !== deletedId
+        );
+      } else {
+        serverGuestsRef.current = mergeGuests(serverGuestsRef.current, [
+          payload.new,
+        ]);
+      }
+      publish();
+    },
+    [publish]
+  );
+
+  const syncOutbox = useCallback(async () => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    let synced = 0;
+    let rejected = 0;
+    let conflicts = 0;
+    try {
+      for (const op of await getPendingOperations(eventId)) {
+        // Queued operations were made against a stale list, so they are
+        // replayed on state alone rather than on updated_at
+        const outcome = await resolveOperation(op);
+        if (outcome.error && isNetworkError(outcome.error)) break;
+        if (outcome.error) {
+          // Rejected by the server (e.g. permissions): retrying won't help
+          console.error("Discarding queued check-in:", outcome.error);
+          rejected++;
+        } else {
+          serverGuestsRef.current = mergeGuests(serverGuestsRef.current, [
+            outcome.guest,
+          ]);
+          if (outcome.applied) {
+            synced++;
+          } else {
+            conflicts++;
+          }
+        }
+        await removeOperation(op.id!);
+      }
+    } catch (error) {
+      console.error("Error syncing outbox:", error);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      await readPending();
+      publish();
+    }
+
+    if (rejected > 0) {
+      toast({
+        title: "Ingresos no sincronizados",
+        description: `${rejected} confirmaciones hechas sin conexión fueron rechazadas por el servidor.`,
+        variant: "destructive",
+      });
+    }
+    if (conflicts > 0) {
+      toast({
+        title: "Ingresos ya registrados",
+        description: `${conflicts} confirmaciones hechas sin conexión ya habían sido registradas por otro dispositivo.`,
+      });
+    }
+  }, [eventId, publish, readPending, toast]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let channelDropped = false;
+
+    (async () => {
+      // Show the cached list right away, then refresh and flush the outbox.
+      // A browser without IndexedDB (private mode) just starts empty.
+      const [cached] = await Promise.all([
+        getCachedGuests(eventId).catch((error) => {
+          console.error("Error reading offline cache:", error);
+          return [] as Guest[];
+        }),
+        readPending(),
+      ]);
+      if (!cancelled && cached.length > 0) {
+        serverGuestsRef.current = cached;
+        publish();
+        setIsLoading(false);
+      }
+      await loadGuests();
+      if (!cancelled && navigator.onLine) syncOutbox();
+    })();
+
+    // Set up real-time subscription
+    const channel = supabase
+      .channel(`guests-${eventId}`)
+      .on<Guest>(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "guests",
+          filter: `event_id=eq.${eventId}`,
+        },
+        applyRealtimeChange
+      )
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          // The client rejoins on its own; catch up on what we missed
+          if (channelDropped) backfill();
+          channelDropped = false;
+        } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          channelDropped = true;
+        }
+      });
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncOutbox();
+      backfill();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    const syncInterval = setInterval(() => {
+      if (navigator.onLine && pendingRef.current.length > 0) syncOutbox();
+    }, SYNC_INTERVAL_MS);
+
+    const reconcileInterval = setInterval(() => {
+      if (navigator.onLine) loadGuests();
+    }, RECONCILE_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      clearInterval(syncInterval);
+      clearInterval(reconcileInterval);
+      clearTimeout(cacheTimerRef.current);
+    };
+  }, [eventId, applyRealtimeChange, backfill, loadGuests, publish, readPending, syncOutbox]);
+
+  const changeCheckIn = useCallback(
+    async (guestId: string, confirmed: boolean): Promise<CheckInResult> => {
+      const current = guests.find((guest) => guest.guest_id === guestId);
+      if (current?.confirmed === confirmed) {
+        return { status: "already", guest: current };
+      }
+
+      const op: OutboxOperation = {
+        eventId,
+        guestId,
+        confirmed,
+        confirmedAt: confirmed ? new Date().toISOString() : null,
+        confirmedBy: user?.id ?? null,
+        device: getDeviceName(),
+        createdAt: new Date().toISOString(),
+      };
+
+      setGuests((prev) => applyOperations(prev, [op]));
+
+      if (navigator.onLine) {
+        const outcome = await resolveOperation(op, current?.updated_at);
+        if (!outcome.error) {
+          serverGuestsRef.current = mergeGuests(serverGuestsRef.current, [
+            outcome.guest,
+          ]);
+          publish();
+          return outcome.applied
+            ? { status: "synced", guest: outcome.guest }
+            : { status: "already", guest: outcome.guest };
+        }
+        if (!isNetworkError(outcome.error)) {
+          publish();
+          throw outcome.error;
+        }
+        setIsOnline(false);
+      }
+
+      try {
+        await enqueueOperation(op);
+      } catch (error) {
+        console.error("Error queueing check-in:", error);
+        publish();
+        throw new Error(
+          "Sin conexión y sin almacenamiento en este navegador: el cambio no se guardó."
+        );
+      }
+      await readPending();
+      publish();
+      return { status: "queued" };
+    },
+    [eventId, guests, user, publish, readPending]
+  );
+
+  const checkIn = useCallback(
+    (guestId: string) => changeCheckIn(guestId, true),
+    [changeCheckIn]
+  );
+
+  const undoCheckIn = useCallback(
+    (guestId: string) => changeCheckIn(guestId, false),
+    [changeCheckIn]
+  );
+
+  return {
+    guests,
+    isLoading,
+    isOnline,
+    isSyncing,
+    pendingCount,
+    reload: loadGuests,
+    sync: syncOutbox,
+    checkIn,
+    undoCheckIn,
+  };
+}
@@ -0,0 +1,73 @@
+import { useMemo } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  appSettingQueryKey,
+  saveAppSetting,
+  useAppSetting,
+} from "@/hooks/use-app-settings";
+import {
+  parseMotorcycleCatalogue,
+  type MotorcycleModel,
+} from "@/lib/motorcycleCatalogue";
+import { planMotorcycleNormalization } from "@/lib/motorcycles";
+import type { Guest } from "@/lib/guests";
+
+const CATALOGUE_KEY = "motorcycle_catalogue";
+
+// Bikes are a nice-to-have: a failed read falls back to the default
+export function useMotorcycleCatalogue() {
+  const query = useAppSetting(CATALOGUE_KEY);
+
+  // Stable between renders, as lists and effects depend on it
+  const catalogue = useMemo(
+    () => parseMotorcycleCatalogue(query.data ?? undefined),
+    [query.data]
+  );
+
+  return {
+    ...query,
+    catalogue,
+    isCustom: query.data !== null && query.data !== undefined,
+  };
+}
+
+export function useSaveMotorcycleCatalogue() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // null goes back to the catalogue shipped with the app
+    mutationFn: (catalogue: MotorcycleModel[] | null) =>
+      saveAppSetting(CATALOGUE_KEY, catalogue as unknown as Json),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: appSettingQueryKey(CATALOGUE_KEY),
+      });
+    },
+  });
+}
+
+// Re-stores the normalized bike of every rider whose value changed
+export function useNormalizeMotorcycles(eventId: string) {
+  return useMutation({
+    mutationFn: async ({
+      guests,
+      catalogue,
+    }: {
+      guests: Guest[];
+      catalogue: MotorcycleModel[];
+    }) => {
+      const changes = planMotorcycleNormalization(guests, catalogue);
+      if (changes.length === 0) return 0;
+      const { data, error } = await supabase.rpc("set_guest_motorcycles", {
+        _event_id: eventId,
+        _values: Object.fromEntries(
+          changes.map(({ id, value }) => [id, value])
+        ) as unknown as Json,
+      });
+      if (error) throw error;
+      return data;
+    },
+  });
+}
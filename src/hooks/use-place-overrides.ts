@@ -0,0 +1,52 @@
+import { useMemo } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+import { supabase } from "@/integrations/supabase/client";
+import { appSettingQueryKey, useAppSetting } from "@/hooks/use-app-settings";
+import type { PlaceChoice, PlaceOverrides } from "@/lib/places";
+
+const OVERRIDES_KEY = "place_overrides";
+
+const overridesSchema = z.record(
+  z.object({
+    province: z.string().nullable(),
+    city: z.string().nullable(),
+  })
+);
+
+const parseOverrides = (value: Json | null | undefined): PlaceOverrides => {
+  const parsed = overridesSchema.safeParse(value ?? {});
+  return parsed.success ? (parsed.data as PlaceOverrides) : {};
+};
+
+// Origins admins have reviewed, shared by every event
+export function usePlaceOverrides() {
+  const query = useAppSetting(OVERRIDES_KEY);
+
+  // Stable between renders, as the reports are memoized on it
+  const overrides = useMemo(() => parseOverrides(query.data), [query.data]);
+
+  return { ...query, overrides };
+}
+
+export function useSavePlaceOverride() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // Changes one entry on the server, so two admins reviewing at the same
+    // time keep each other's decisions; null forgets the decision
+    mutationFn: async ({ key, choice }: { key: string; choice: PlaceChoice | null }) => {
+      const { error } = await supabase.rpc("set_place_override", {
+        _key: key,
+        _choice: choice && { province: choice.province, city: choice.city },
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: appSettingQueryKey(OVERRIDES_KEY),
+      });
+    },
+  });
+}
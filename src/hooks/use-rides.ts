@@ -0,0 +1,206 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/use-auth";
+import type { Ride, RideRider } from "@/lib/rides";
+
+const ridesQueryKey = (eventId: string) => ["rides", eventId] as const;
+const rideRidersQueryKey = (rideId: string) => ["ride-riders", rideId] as const;
+
+export function useRides(eventId: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`rides-${eventId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "rides",
+          filter: `event_id=eq.${eventId}`,
+        },
+        () => queryClient.invalidateQueries({ queryKey: ridesQueryKey(eventId) })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, queryClient]);
+
+  return useQuery({
+    queryKey: ridesQueryKey(eventId),
+    queryFn: async (): Promise<Ride[]> => {
+      const { data, error } = await supabase
+        .from("rides")
+        .select("*")
+        .eq("event_id", eventId)
+        .order("departs_at", { ascending: true, nullsFirst: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+}
+
+// Roster of one ride, live so every marshal's check-off shows up
+export function useRideRiders(rideId: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`ride-riders-${rideId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "ride_riders",
+          filter: `ride_id=eq.${rideId}`,
+        },
+        () =>
+          queryClient.invalidateQueries({ queryKey: rideRidersQueryKey(rideId) })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [rideId, queryClient]);
+
+  return useQuery({
+    queryKey: rideRidersQueryKey(rideId),
+    queryFn: async (): Promise<RideRider[]> => {
+      const { data, error } = await supabase
+        .from("ride_riders")
+        .select("*")
+        .eq("ride_id", rideId);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+}
+
+export function useSaveRide(eventId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ride: Omit<TablesInsert<"rides">, "event_id">) => {
+      const { data, error } = await supabase
+        .from("rides")
+        .upsert({ ...ride, event_id: eventId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ridesQueryKey(eventId) });
+    },
+  });
+}
+
+export function useDeleteRide(eventId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (rideId: string) => {
+      const { error } = await supabase.from("rides").delete().eq("id", rideId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ridesQueryKey(eventId) });
+    },
+  });
+}
+
+export function useAddRideRiders(rideId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (guestIds: string[]) => {
+      const { error } = await supabase
+        .from("ride_riders")
+        .upsert(
+          guestIds.map((guest_id) => ({ ride_id: rideId, guest_id })),
+          { onConflict: "ride_id,guest_id", ignoreDuplicates: true }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rideRidersQueryKey(rideId) });
+    },
+  });
+}
+
+export function useRemoveRideRider(rideId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("ride_riders").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rideRidersQueryKey(rideId) });
+    },
+  });
+}
+
+export function useAssignRideGroups(rideId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      changes: { rider: RideRider; group_number: number | null }[]
+    ) => {
+      if (changes.length === 0) return;
+      const { error } = await supabase.from("ride_riders").upsert(
+        changes.map(({ rider, group_number }) => ({
+          id: rider.id,
+          ride_id: rider.ride_id,
+          guest_id: rider.guest_id,
+          group_number,
+        }))
+      );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rideRidersQueryKey(rideId) });
+    },
+  });
+}
+
+// Departure check-off, separate from the event entry check-in
+export function useSetDeparted(rideId: string) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ id, departed }: { id: string; departed: boolean }) => {
+      const { data, error } = await supabase
+        .from("ride_riders")
+        .update({
+          departed,
+          departed_at: departed ? new Date().toISOString() : null,
+          departed_by: departed ? user?.id ?? null : null,
+        })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData<RideRider[]>(rideRidersQueryKey(rideId), (riders) =>
+        riders?.map((rider) => (rider.id === updated.id ? updated : rider))
+      );
+    },
+  });
+}
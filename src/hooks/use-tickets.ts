@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchAllGuests } from "@/lib/guestImport";
+import { regenerateTicketToken } from "@/lib/tickets";
+import type { Guest } from "@/lib/guests";
+
+const ticketsQueryKey = (eventId: string) => ["tickets", eventId] as const;
+
+export function useTicketGuests(eventId: string | undefined) {
+  return useQuery({
+    queryKey: ticketsQueryKey(eventId ?? ""),
+    enabled: !!eventId,
+    queryFn: () => fetchAllGuests(eventId!),
+  });
+}
+
+export function useRegenerateTicket(eventId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: regenerateTicketToken,
+    onSuccess: (updated) => {
+      queryClient.setQueryData<Guest[]>(ticketsQueryKey(eventId), (guests) =>
+        guests?.map((guest) =>
+          guest.id === updated.id
+            ? { ...guest, qr_token: updated.qr_token }
+            : guest
+        )
+      );
+    },
+  });
+}
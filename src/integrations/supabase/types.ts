@@ -14,34 +14,303 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      events: {
+        Row: {
+          column_mapping: Json
+          created_at: string
+          end_date: string | null
+          id: string
+          identity_columns: Json | null
+          location: string | null
+          logo_url: string | null
+          name: string
+          primary_color: string | null
+          registration_open: boolean
+          registration_questions: Json
+          start_date: string | null
+          updated_at: string
+        }
+        Insert: {
+          column_mapping?: Json
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          identity_columns?: Json | null
+          location?: string | null
+          logo_url?: string | null
+          name: string
+          primary_color?: string | null
+          registration_open?: boolean
+          registration_questions?: Json
+          start_date?: string | null
+          updated_at?: string
+        }
+        Update: {
+          column_mapping?: Json
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          identity_columns?: Json | null
+          location?: string | null
+          logo_url?: string | null
+          name?: string
+          primary_color?: string | null
+          registration_open?: boolean
+          registration_questions?: Json
+          start_date?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      guest_events: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          created_at: string
+          device: string | null
+          event_id: string
+          guest_id: string | null
+          guest_name: string | null
+          id: string
+          new_confirmed: boolean
+          old_confirmed: boolean | null
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          device?: string | null
+          event_id: string
+          guest_id?: string | null
+          guest_name?: string | null
+          id?: string
+          new_confirmed: boolean
+          old_confirmed?: boolean | null
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          device?: string | null
+          event_id?: string
+          guest_id?: string | null
+          guest_name?: string | null
+          id?: string
+          new_confirmed?: boolean
+          old_confirmed?: boolean | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guest_events_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guest_events_guest_id_fkey"
+            columns: ["guest_id"]
+            isOneToOne: false
+            referencedRelation: "guests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       guests: {
         Row: {
           confirmed: boolean
           confirmed_at: string | null
+          confirmed_by: string | null
+          confirmed_device: string | null
           created_at: string
+          event_id: string
           guest_data: Json
           guest_id: string
           id: string
+          motorcycle: Json | null
+          origin: string
+          parent_guest_id: string | null
+          qr_token: string
           updated_at: string
         }
         Insert: {
           confirmed?: boolean
           confirmed_at?: string | null
+          confirmed_by?: string | null
+          confirmed_device?: string | null
           created_at?: string
+          event_id: string
           guest_data: Json
           guest_id: string
           id?: string
+          motorcycle?: Json | null
+          origin?: string
+          parent_guest_id?: string | null
+          qr_token?: string
           updated_at?: string
         }
         Update: {
           confirmed?: boolean
           confirmed_at?: string | null
+          confirmed_by?: string | null
+          confirmed_device?: string | null
           created_at?: string
+          event_id?: string
           guest_data?: Json
           guest_id?: string
           id?: string
+          motorcycle?: Json | null
+          origin?: string
+          parent_guest_id?: string | null
+          qr_token?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guests_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guests_parent_guest_id_fkey"
+            columns: ["parent_guest_id"]
+            isOneToOne: false
+            referencedRelation: "guests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_riders: {
+        Row: {
+          created_at: string
+          departed: boolean
+          departed_at: string | null
+          departed_by: string | null
+          group_number: number | null
+          guest_id: string
+          id: string
+          ride_id: string
+        }
+        Insert: {
+          created_at?: string
+          departed?: boolean
+          departed_at?: string | null
+          departed_by?: string | null
+          group_number?: number | null
+          guest_id: string
+          id?: string
+          ride_id: string
+        }
+        Update: {
+          created_at?: string
+          departed?: boolean
+          departed_at?: string | null
+          departed_by?: string | null
+          group_number?: number | null
+          guest_id?: string
+          id?: string
+          ride_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_riders_guest_id_fkey"
+            columns: ["guest_id"]
+            isOneToOne: false
+            referencedRelation: "guests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ride_riders_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rides: {
+        Row: {
+          capacity: number | null
+          created_at: string
+          departs_at: string | null
+          event_id: string
+          id: string
+          marshal: string | null
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          capacity?: number | null
+          created_at?: string
+          departs_at?: string | null
+          event_id: string
+          id?: string
+          marshal?: string | null
+          name: string
           updated_at?: string
         }
+        Update: {
+          capacity?: number | null
+          created_at?: string
+          departs_at?: string | null
+          event_id?: string
+          id?: string
+          marshal?: string | null
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rides_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
         Relationships: []
       }
     }
@@ -49,10 +318,85 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      build_guest_id: {
+        Args: { _columns: Json; _guest_data: Json }
+        Returns: string
+      }
+      companion_guest_data: {
+        Args: { _data: Json }
+        Returns: Json
+      }
+      get_registration_form: {
+        Args: { _event_id: string }
+        Returns: {
+          end_date: string | null
+          id: string
+          location: string | null
+          logo_url: string | null
+          name: string
+          primary_color: string | null
+          registration_questions: Json
+          start_date: string | null
+        }[]
+      }
+      has_any_role: {
+        Args: {
+          _roles: Database["public"]["Enums"]["app_role"][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      list_user_roles: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          email: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }[]
+      }
+      normalize_identity_text: {
+        Args: { _value: string }
+        Returns: string
+      }
+      register_guest: {
+        Args: { _event_id: string; _guest_data: Json }
+        Returns: {
+          event_id: string
+          guest_data: Json
+          guest_id: string
+          id: string
+          qr_token: string
+        }[]
+      }
+      remove_user_role: {
+        Args: { _user_id: string }
+        Returns: undefined
+      }
+      set_guest_motorcycles: {
+        Args: { _event_id: string; _values: Json }
+        Returns: number
+      }
+      set_place_override: {
+        Args: { _choice: Json; _key: string }
+        Returns: undefined
+      }
+      set_user_role: {
+        Args: {
+          _email: string
+          _role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "staff" | "viewer" | "medic"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -179,6 +523,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "staff", "viewer", "medic"],
+    },
   },
 } as const
@@ -0,0 +1,59 @@
+import argentinaGeo from "@/assets/argentina.geo.json";
+
+export type Position = [lng: number, lat: number];
+export type Ring = Position[];
+
+/*
+ * The bundled GeoJSON is deliberately small: a simplified outline of the
+ * country and one centre point per province. There are no province
+ * borders, so origins are drawn as bubbles on those centres.
+ */
+
+const toPosition = (value: unknown): Position | null =>
+  Array.isArray(value) &&
+  typeof value[0] === "number" &&
+  typeof value[1] === "number"
+    ? [value[0], value[1]]
+    : null;
+
+const toRing = (value: unknown): Ring =>
+  Array.isArray(value)
+    ? value.map(toPosition).filter((position): position is Position => !!position)
+    : [];
+
+interface GeoFeature {
+  kind: string;
+  name: string;
+  type: string;
+  // Checked shape by shape below rather than trusted
+  coordinates: unknown;
+}
+
+const features = argentinaGeo.features.map(
+  (feature): GeoFeature => ({
+    kind: feature.properties.kind,
+    name: feature.properties.name,
+    type: feature.geometry.type,
+    coordinates: feature.geometry.coordinates,
+  })
+);
+
+// Every ring of the outline's polygons: the mainland and Tierra del Fuego
+export const ARGENTINA_OUTLINE: Ring[] = features
+  .filter((feature) => feature.kind === "outline" && feature.type === "MultiPolygon")
+  .flatMap((feature) =>
+    Array.isArray(feature.coordinates)
+      ? feature.coordinates.flatMap((polygon: unknown) =>
+          Array.isArray(polygon) ? polygon.map(toRing) : []
+        )
+      : []
+  );
+
+export const PROVINCE_CENTRES = new Map<string, Position>(
+  features
+    .filter((feature) => feature.kind === "province" && feature.type === "Point")
+    .flatMap((feature) => {
+      const position = toPosition(feature.coordinates);
+      return position ? [[feature.name, position] as const] : [];
+    })
+);
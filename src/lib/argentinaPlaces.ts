@@ -0,0 +1,215 @@
+export interface Province {
+  name: string;
+  // Abbreviations and other names riders type, e.g. "Bs As" or "Cba"
+  aliases: string[];
+}
+
+export interface Locality {
+  name: string;
+  province: string;
+  lat: number;
+  lng: number;
+  aliases?: string[];
+}
+
+export const PROVINCES: Province[] = [
+  {
+    name: "Buenos Aires",
+    aliases: [
+      "bs as",
+      "bsas",
+      "bs as provincia",
+      "pba",
+      "provincia de buenos aires",
+      "prov de buenos aires",
+      "pcia de buenos aires",
+      "ba",
+    ],
+  },
+  {
+    name: "Ciudad Autónoma de Buenos Aires",
+    aliases: [
+      "caba",
+      "capital federal",
+      "cap fed",
+      "capital",
+      "ciudad de buenos aires",
+      "ciudad autonoma",
+    ],
+  },
+  { name: "Catamarca", aliases: ["cat"] },
+  { name: "Chaco", aliases: [] },
+  { name: "Chubut", aliases: ["chu"] },
+  { name: "Córdoba", aliases: ["cba", "cordoba capital"] },
+  { name: "Corrientes", aliases: ["ctes"] },
+  { name: "Entre Ríos", aliases: ["e rios", "er"] },
+  { name: "Formosa", aliases: ["fsa"] },
+  { name: "Jujuy", aliases: ["jjy"] },
+  { name: "La Pampa", aliases: ["lp"] },
+  { name: "La Rioja", aliases: ["lr"] },
+  { name: "Mendoza", aliases: ["mza"] },
+  { name: "Misiones", aliases: ["mnes"] },
+  { name: "Neuquén", aliases: ["nqn"] },
+  { name: "Río Negro", aliases: ["rn"] },
+  { name: "Salta", aliases: [] },
+  { name: "San Juan", aliases: ["sj"] },
+  { name: "San Luis", aliases: ["sl"] },
+  { name: "Santa Cruz", aliases: ["sc"] },
+  { name: "Santa Fe", aliases: ["sta fe", "sf"] },
+  { name: "Santiago del Estero", aliases: ["sgo del estero", "santiago", "sde"] },
+  { name: "Tierra del Fuego", aliases: ["tdf", "tierra del fuego aias"] },
+  { name: "Tucumán", aliases: ["tuc"] },
+];
+
+const place = (
+  name: string,
+  province: string,
+  lat: number,
+  lng: number,
+  aliases?: string[]
+): Locality => ({ name, province, lat, lng, aliases });
+
+// Capitals and the towns riders come from most, with their coordinates
+export const LOCALITIES: Locality[] = [
+  place("La Plata", "Buenos Aires", -34.92, -57.95),
+  place("Mar del Plata", "Buenos Aires", -38.0, -57.56, ["mdp", "mardel"]),
+  place("Bahía Blanca", "Buenos Aires", -38.72, -62.27),
+  place("Tandil", "Buenos Aires", -37.32, -59.13),
+  place("Olavarría", "Buenos Aires", -36.89, -60.32),
+  place("Pergamino", "Buenos Aires", -33.89, -60.57),
+  place("Junín", "Buenos Aires", -34.58, -60.94),
+  place("Necochea", "Buenos Aires", -38.55, -58.74),
+  place("Azul", "Buenos Aires", -36.78, -59.86),
+  place("San Nicolás de los Arroyos", "Buenos Aires", -33.33, -60.22, ["san nicolas"]),
+  place("Luján", "Buenos Aires", -34.57, -59.11),
+  place("Quilmes", "Buenos Aires", -34.72, -58.25),
+  place("Lomas de Zamora", "Buenos Aires", -34.76, -58.4),
+  place("San Justo", "Buenos Aires", -34.68, -58.56, ["la matanza"]),
+  place("Morón", "Buenos Aires", -34.65, -58.62),
+  place("Tigre", "Buenos Aires", -34.43, -58.58),
+  place("Pilar", "Buenos Aires", -34.46, -58.91),
+  place("Zárate", "Buenos Aires", -34.1, -59.02),
+  place("Campana", "Buenos Aires", -34.16, -58.96),
+  place("Chivilcoy", "Buenos Aires", -34.9, -60.02),
+  place("Tres Arroyos", "Buenos Aires", -38.38, -60.28),
+  place("Villa Gesell", "Buenos Aires", -37.26, -56.97),
+  place("Mercedes", "Buenos Aires", -34.65, -59.43),
+  place("Buenos Aires", "Ciudad Autónoma de Buenos Aires", -34.61, -58.38, [
+    "caba",
+    "capital federal",
+    "cap fed",
+    "ciudad de buenos aires",
+  ]),
+  place("San Fernando del Valle de Catamarca", "Catamarca", -28.47, -65.78, [
+    "catamarca",
+    "catamarca capital",
+  ]),
+  place("Belén", "Catamarca", -27.65, -67.03),
+  place("Tinogasta", "Catamarca", -28.07, -67.57),
+  place("Resistencia", "Chaco", -27.45, -58.99),
+  place("Presidencia Roque Sáenz Peña", "Chaco", -26.79, -60.44, [
+    "saenz pena",
+    "roque saenz pena",
+  ]),
+  place("Villa Ángela", "Chaco", -27.57, -60.71),
+  place("Rawson", "Chubut", -43.3, -65.1),
+  place("Trelew", "Chubut", -43.25, -65.31),
+  place("Puerto Madryn", "Chubut", -42.77, -65.04, ["madryn"]),
+  place("Comodoro Rivadavia", "Chubut", -45.86, -67.48, ["comodoro"]),
+  place("Esquel", "Chubut", -42.91, -71.32),
+  place("Córdoba", "Córdoba", -31.42, -64.18, ["cba", "cordoba capital"]),
+  place("Río Cuarto", "Córdoba", -33.12, -64.35),
+  place("Villa María", "Córdoba", -32.41, -63.24),
+  place("Villa Carlos Paz", "Córdoba", -31.42, -64.5, ["carlos paz"]),
+  place("San Francisco", "Córdoba", -31.43, -62.08),
+  place("Alta Gracia", "Córdoba", -31.65, -64.43),
+  place("Jesús María", "Córdoba", -30.98, -64.09),
+  place("Río Tercero", "Córdoba", -32.17, -64.11),
+  place("Villa General Belgrano", "Córdoba", -31.98, -64.56),
+  place("Cosquín", "Córdoba", -31.24, -64.47),
+  place("La Falda", "Córdoba", -31.09, -64.49),
+  place("Bell Ville", "Córdoba", -32.63, -62.69),
+  place("Corrientes", "Corrientes", -27.47, -58.83),
+  place("Goya", "Corrientes", -29.14, -59.26),
+  place("Paso de los Libres", "Corrientes", -29.71, -57.09),
+  place("Mercedes", "Corrientes", -29.18, -58.08),
+  place("Paraná", "Entre Ríos", -31.73, -60.52),
+  place("Concordia", "Entre Ríos", -31.39, -58.02),
+  place("Gualeguaychú", "Entre Ríos", -33.01, -58.52),
+  place("Concepción del Uruguay", "Entre Ríos", -32.48, -58.24),
+  place("Colón", "Entre Ríos", -32.22, -58.14),
+  place("Victoria", "Entre Ríos", -32.62, -60.15),
+  place("Formosa", "Formosa", -26.18, -58.17),
+  place("Clorinda", "Formosa", -25.28, -57.72),
+  place("San Salvador de Jujuy", "Jujuy", -24.19, -65.3, ["jujuy", "san salvador"]),
+  place("Palpalá", "Jujuy", -24.26, -65.21),
+  place("San Pedro", "Jujuy", -24.23, -64.87),
+  place("Humahuaca", "Jujuy", -23.21, -65.35),
+  place("La Quiaca", "Jujuy", -22.1, -65.59),
+  place("Tilcara", "Jujuy", -23.58, -65.4),
+  place("Santa Rosa", "La Pampa", -36.62, -64.29),
+  place("General Pico", "La Pampa", -35.66, -63.76),
+  place("La Rioja", "La Rioja", -29.41, -66.86),
+  place("Chilecito", "La Rioja", -29.16, -67.5),
+  place("Mendoza", "Mendoza", -32.89, -68.83),
+  place("San Rafael", "Mendoza", -34.62, -68.33),
+  place("Godoy Cruz", "Mendoza", -32.93, -68.85),
+  place("Maipú", "Mendoza", -32.98, -68.79),
+  place("Luján de Cuyo", "Mendoza", -33.04, -68.88),
+  place("Malargüe", "Mendoza", -35.48, -69.59),
+  place("Tunuyán", "Mendoza", -33.58, -69.02),
+  place("San Martín", "Mendoza", -33.08, -68.47),
+  place("Posadas", "Misiones", -27.37, -55.9),
+  place("Oberá", "Misiones", -27.49, -55.12),
+  place("Eldorado", "Misiones", -26.41, -54.62),
+  place("Puerto Iguazú", "Misiones", -25.6, -54.57, ["iguazu"]),
+  place("Neuquén", "Neuquén", -38.95, -68.06, ["nqn"]),
+  place("San Martín de los Andes", "Neuquén", -40.16, -71.35),
+  place("Zapala", "Neuquén", -38.9, -70.07),
+  place("Cutral Có", "Neuquén", -38.94, -69.23),
+  place("Villa La Angostura", "Neuquén", -40.76, -71.65),
+  place("Junín de los Andes", "Neuquén", -39.95, -71.07),
+  place("Viedma", "Río Negro", -40.81, -62.99),
+  place("San Carlos de Bariloche", "Río Negro", -41.13, -71.31, ["bariloche"]),
+  place("General Roca", "Río Negro", -39.03, -67.58, ["roca"]),
+  place("Cipolletti", "Río Negro", -38.93, -67.99),
+  place("Allen", "Río Negro", -38.98, -67.83),
+  place("Villa Regina", "Río Negro", -39.1, -67.08),
+  place("El Bolsón", "Río Negro", -41.96, -71.53),
+  place("San Antonio Oeste", "Río Negro", -40.73, -64.95),
+  place("Salta", "Salta", -24.79, -65.41),
+  place("San Ramón de la Nueva Orán", "Salta", -23.13, -64.33, ["oran"]),
+  place("Tartagal", "Salta", -22.52, -63.8),
+  place("Cafayate", "Salta", -26.07, -65.98),
+  place("Metán", "Salta", -25.5, -64.97),
+  place("San Juan", "San Juan", -31.54, -68.53),
+  place("Caucete", "San Juan", -31.65, -68.28),
+  place("San Luis", "San Luis", -33.3, -66.34),
+  place("Villa Mercedes", "San Luis", -33.68, -65.46),
+  place("Merlo", "San Luis", -32.34, -65.01),
+  place("Río Gallegos", "Santa Cruz", -51.62, -69.22),
+  place("Caleta Olivia", "Santa Cruz", -46.44, -67.52),
+  place("El Calafate", "Santa Cruz", -50.34, -72.26, ["calafate"]),
+  place("Puerto Deseado", "Santa Cruz", -47.75, -65.9),
+  place("Perito Moreno", "Santa Cruz", -46.59, -70.93),
+  place("Santa Fe", "Santa Fe", -31.63, -60.7, ["santa fe capital"]),
+  place("Rosario", "Santa Fe", -32.95, -60.65),
+  place("Rafaela", "Santa Fe", -31.25, -61.49),
+  place("Venado Tuerto", "Santa Fe", -33.75, -61.97),
+  place("Reconquista", "Santa Fe", -29.15, -59.65),
+  place("Villa Constitución", "Santa Fe", -33.23, -60.33),
+  place("Esperanza", "Santa Fe", -31.45, -60.93),
+  place("Casilda", "Santa Fe", -33.04, -61.17),
+  place("Cañada de Gómez", "Santa Fe", -32.82, -61.39),
+  place("Santiago del Estero", "Santiago del Estero", -27.78, -64.26),
+  place("La Banda", "Santiago del Estero", -27.73, -64.24),
+  place("Termas de Río Hondo", "Santiago del Estero", -27.49, -64.86, ["termas"]),
+  place("Ushuaia", "Tierra del Fuego", -54.8, -68.3),
+  place("Río Grande", "Tierra del Fuego", -53.79, -67.7),
+  place("Tolhuin", "Tierra del Fuego", -54.51, -67.2),
+  place("San Miguel de Tucumán", "Tucumán", -26.82, -65.22, ["tucuman", "san miguel"]),
+  place("Yerba Buena", "Tucumán", -26.82, -65.32),
+  place("Tafí Viejo", "Tucumán", -26.73, -65.26),
+  place("Concepción", "Tucumán", -27.34, -65.59),
+  place("Tafí del Valle", "Tucumán", -26.85, -65.71),
+];
@@ -0,0 +1,162 @@
+import { normalizeText } from "@/lib/columnMapping";
+import { indexCompanions } from "@/lib/companions";
+import { getGuestField, getGuestFlag } from "@/lib/guestFields";
+import { asGuestData, getGuestName, type Guest } from "@/lib/guests";
+
+export type DietKey =
+  | "vegan"
+  | "vegetarian"
+  | "celiac"
+  | "lactose"
+  | "diabetic"
+  | "lowSodium"
+  | "other";
+
+export interface Diet {
+  key: DietKey;
+  label: string;
+  // Normalized word starts, so "celiaca" and "celiaquia" both match "celiac";
+  // a pattern where a prefix would catch other words
+  keywords: (string | RegExp)[];
+}
+
+export const DIETS: Diet[] = [
+  { key: "vegan", label: "Vegano", keywords: ["vegan"] },
+  {
+    key: "vegetarian",
+    label: "Vegetariano",
+    keywords: ["vegetarian", "veggie", "no como carne", "sin carne"],
+  },
+  { key: "celiac", label: "Celíaco / sin TACC", keywords: ["celiac", "celiaq", "tacc", "gluten"] },
+  { key: "lactose", label: "Sin lactosa", keywords: ["lactosa", "lacteo", "sin leche"] },
+  { key: "diabetic", label: "Diabético / sin azúcar", keywords: ["diabet", "sin azucar"] },
+  { key: "lowSodium", label: "Hiposódico", keywords: [/\bsin sal\b/, "hiposodic", "hipertens"] },
+  { key: "other", label: "Otra", keywords: [] },
+];
+
+const DIETS_BY_KEY = new Map(DIETS.map((diet) => [diet.key, diet]));
+
+export const getDietLabel = (key: DietKey) => DIETS_BY_KEY.get(key)!.label;
+
+// Answers made only of these words ("No", "N/A", "Sin restricciones",
+// "Ninguna restricción") mean none. Answers are compared without accents.
+const NONE_WORDS = new Set([
+  "no",
+  "n",
+  "a",
+  "na",
+  "nada",
+  "ninguna",
+  "ninguno",
+  "ningun",
+  "tengo",
+  "sin",
+  "restriccion",
+  "restricciones",
+  "alimentaria",
+  "alimentarias",
+]);
+
+/**
+ * Sorts a free-text answer into diets, so "No como gluten" is celiac and
+ * "Sin sal" is low sodium (but "Sin salsa" is not), while "No" or
+ * "Ninguna" is nothing. Anything else unrecognized, like
+ * "No como mariscos", is "other" for the kitchen to read.
+ */
+export const classifyDiet = (answer: string): DietKey[] => {
+  const normalized = normalizeText(answer);
+  const text = ` ${normalized}`;
+  const diets = DIETS.filter((diet) =>
+    diet.keywords.some((keyword) =>
+      typeof keyword === "string" ? text.includes(` ${keyword}`) : keyword.test(text)
+    )
+  ).map((diet) => diet.key);
+
+  // Vegan already rules out meat
+  if (diets.includes("vegan")) {
+    return diets.filter((key) => key !== "vegetarian");
+  }
+  if (diets.length > 0) return diets;
+  const words = normalized.split(" ").filter(Boolean);
+  return words.every((word) => NONE_WORDS.has(word)) ? [] : ["other"];
+};
+
+export interface Diner {
+  guest: Guest;
+  name: string;
+  document: string;
+  // Set for companions: the rider whose answer brought them to the dinner
+  riderName?: string;
+  restriction: string;
+  diets: DietKey[];
+}
+
+export interface CateringReport {
+  diners: Diner[];
+  riders: number;
+  companions: number;
+  // Diets with at least one diner, in DIETS order
+  byDiet: { diet: Diet; diners: Diner[] }[];
+}
+
+const toDiner = (guest: Guest, riderName?: string): Diner => {
+  const data = asGuestData(guest.guest_data);
+  const restriction = getGuestField(data, "dietaryRestriction");
+  const diets = classifyDiet(restriction);
+  return {
+    guest,
+    name: getGuestName(data, guest.guest_id),
+    document: getGuestField(data, "document"),
+    riderName,
+    restriction: diets.length > 0 ? restriction : "",
+    diets,
+  };
+};
+
+/**
+ * Everyone expected at the dinner show. The form asks the rider only, so
+ * a rider's "Sí" brings their companion along too.
+ */
+export const buildCateringReport = (guests: Guest[]): CateringReport => {
+  const companions = indexCompanions(guests);
+  const diners: Diner[] = [];
+  let riderCount = 0;
+  let companionCount = 0;
+
+  guests.forEach((guest) => {
+    if (guest.parent_guest_id) return;
+    if (!getGuestFlag(asGuestData(guest.guest_data), "dinner")) return;
+    const rider = toDiner(guest);
+    diners.push(rider);
+    riderCount++;
+
+    const companion = companions.get(guest.id);
+    if (companion) {
+      diners.push(toDiner(companion, rider.name));
+      companionCount++;
+    }
+  });
+
+  diners.sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    diners,
+    riders: riderCount,
+    companions: companionCount,
+    byDiet: DIETS.map((diet) => ({
+      diet,
+      diners: diners.filter((diner) => diner.diets.includes(diet.key)),
+    })).filter((group) => group.diners.length > 0),
+  };
+};
+
+// One row per diner, as the caterer asked for it
+export const toCateringRows = (diners: Diner[]) =>
+  diners.map((diner) => ({
+    Nombre: diner.name,
+    DNI: diner.document,
+    Tipo: diner.riderName ? `Acompañante de ${diner.riderName}` : "Piloto",
+    Dieta: diner.diets.map(getDietLabel).join(", "),
+    Detalle: diner.restriction,
+    Ingresó: diner.guest.confirmed ? "Sí" : "No",
+  }));
@@ -0,0 +1,20 @@
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import type { Guest } from "@/lib/guests";
+
+// "hace 3 minutos en Puerta 2"
+export const describeCheckIn = (guest: Guest) => {
+  const parts: string[] = [];
+  if (guest.confirmed_at) {
+    parts.push(
+      formatDistanceToNow(new Date(guest.confirmed_at), {
+        addSuffix: true,
+        locale: es,
+      })
+    );
+  }
+  if (guest.confirmed_device) {
+    parts.push(`en ${guest.confirmed_device}`);
+  }
+  return parts.join(" ");
+};
@@ -0,0 +1,103 @@
+import jsQR from "jsqr";
+
+// Shape Detection API, available in Chromium on Android; not yet in lib.dom
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: CanvasImageSource | ImageBitmap): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options: { formats: string[] }): BarcodeDetectorLike;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: BarcodeDetectorConstructor;
+  }
+}
+
+// Ticket QR codes and the PDF417 on the back of the DNI
+const WANTED_FORMATS = ["qr_code", "pdf417"];
+
+export interface CodeReader {
+  // False when only QR codes can be read (jsQR fallback)
+  readsDni: boolean;
+  decode(source: CanvasImageSource, width: number, height: number): Promise<string | null>;
+}
+
+// Large photos are scaled down before decoding; QR codes survive it fine
+const MAX_IMAGE_SIDE = 1280;
+
+// Live frames skip the inverted pass to keep up with the camera
+export const decodeQr = (image: ImageData, tryInverted = false) =>
+  jsQR(image.data, image.width, image.height, {
+    inversionAttempts: tryInverted ? "attemptBoth" : "dontInvert",
+  })?.data ?? null;
+
+export const grabFrame = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  canvas = document.createElement("canvas")
+) => {
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(width, height));
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const jsQrReader = (tryInverted: boolean): CodeReader => {
+  const canvas = document.createElement("canvas");
+  return {
+    readsDni: false,
+    decode: async (source, width, height) =>
+      decodeQr(grabFrame(source, width, height, canvas), tryInverted),
+  };
+};
+
+let nativeReaderPromise: Promise<CodeReader | null> | null = null;
+
+const getNativeReader = () => {
+  if (!nativeReaderPromise) {
+    nativeReaderPromise = (async () => {
+      const Detector = window.BarcodeDetector;
+      if (!Detector) return null;
+      const supported = await Detector.getSupportedFormats();
+      const formats = WANTED_FORMATS.filter((f) => supported.includes(f));
+      if (formats.length === 0) return null;
+
+      const detector = new Detector({ formats });
+      return {
+        readsDni: formats.includes("pdf417"),
+        decode: async (source) =>
+          (await detector.detect(source))[0]?.rawValue ?? null,
+      };
+    })().catch((error) => {
+      console.error("BarcodeDetector unavailable:", error);
+      return null;
+    });
+  }
+  return nativeReaderPromise;
+};
+
+// The native detector when the browser has one, jsQR otherwise
+export const getCodeReader = async (tryInverted = false) =>
+  (await getNativeReader()) ?? jsQrReader(tryInverted);
+
+// Lets the scanner be exercised with a photo or screenshot of a ticket
+export const decodeImageFile = async (file: File) => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const reader = await getCodeReader(true);
+    return await reader.decode(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,158 @@
+import type { Json } from "@/integrations/supabase/types";
+import { GUEST_FIELDS, getGuestFieldLabel, type GuestFieldKey } from "@/lib/guestFields";
+import type { GuestRow } from "@/lib/guests";
+
+// "keep" stores the column under its original header, "ignore" drops it
+export type ColumnTarget = GuestFieldKey | "keep" | "ignore";
+
+export type ColumnMapping = Record<string, ColumnTarget>;
+
+export interface ColumnSuggestion {
+  target: ColumnTarget;
+  score: number;
+}
+
+const MIN_SUGGESTION_SCORE = 0.55;
+
+export const normalizeText = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const bigrams = (value: string) => {
+  const grams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    grams.push(value.slice(i, i + 2));
+  }
+  return grams;
+};
+
+// Sørensen–Dice coefficient over character bigrams
+export const textSimilarity = (a: string, b: string) => {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  if (leftGrams.length === 0 || rightGrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  leftGrams.forEach((gram) => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+
+  let overlap = 0;
+  rightGrams.forEach((gram) => {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  });
+
+  return (2 * overlap) / (leftGrams.length + rightGrams.length);
+};
+
+const scoreField = (header: string, key: GuestFieldKey) => {
+  const field = GUEST_FIELDS.find((f) => f.key === key);
+  if (!field) return 0;
+  return Math.max(
+    ...[field.label, ...field.aliases].map((name) => textSimilarity(header, name))
+  );
+};
+
+/**
+ * Suggests a canonical field for each header. Pairs are assigned greedily
+ * from the highest score down so two headers never claim the same field
+ * ("Apellido y Nombre" vs "Apellido y Nombre del acompañante").
+ */
+export const suggestColumnMapping = (
+  headers: string[]
+): Record<string, ColumnSuggestion> => {
+  const pairs = headers.flatMap((header) =>
+    GUEST_FIELDS.map((field) => ({
+      header,
+      key: field.key,
+      score: scoreField(header, field.key),
+    }))
+  );
+  pairs.sort((a, b) => b.score - a.score);
+
+  const suggestions: Record<string, ColumnSuggestion> = {};
+  const usedFields = new Set<GuestFieldKey>();
+
+  pairs.forEach(({ header, key, score }) => {
+    if (score < MIN_SUGGESTION_SCORE) return;
+    if (suggestions[header] || usedFields.has(key)) return;
+    suggestions[header] = { target: key, score };
+    usedFields.add(key);
+  });
+
+  headers.forEach((header) => {
+    if (!suggestions[header]) {
+      suggestions[header] = { target: "keep", score: 0 };
+    }
+  });
+
+  return suggestions;
+};
+
+export const getTargetColumn = (header: string, target: ColumnTarget) => {
+  if (target === "ignore") return null;
+  if (target === "keep") return header;
+  return getGuestFieldLabel(target);
+};
+
+export const applyColumnMapping = (
+  rows: GuestRow[],
+  headers: string[],
+  mapping: ColumnMapping
+) => {
+  const columns = headers
+    .map((header) => ({
+      header,
+      target: getTargetColumn(header, mapping[header] ?? "keep"),
+    }))
+    .filter((column): column is { header: string; target: string } =>
+      Boolean(column.target)
+    );
+
+  const mappedRows = rows.map((row) => {
+    const mapped: GuestRow = {};
+    columns.forEach(({ header, target }) => {
+      mapped[target] = row[header];
+    });
+    return mapped;
+  });
+
+  return {
+    rows: mappedRows,
+    headers: [...new Set(columns.map((column) => column.target))],
+  };
+};
+
+// The mapping stored on the event, keeping only targets that still exist
+export const parseColumnMapping = (value: Json | null | undefined): ColumnMapping => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const targets = new Set<unknown>([
+    ...GUEST_FIELDS.map((field) => field.key),
+    "keep",
+    "ignore",
+  ]);
+  return Object.fromEntries(
+    Object.entries(value).filter(([, target]) => targets.has(target))
+  ) as ColumnMapping;
+};
+
+// Merged so headers from older files stay remembered too
+export const mergeColumnMapping = (saved: ColumnMapping, mapping: ColumnMapping) => ({
+  ...saved,
+  ...mapping,
+});
+
+export const isMappingComplete = (headers: string[], mapping: ColumnMapping) =>
+  headers.every((header) => mapping[header] !== undefined);
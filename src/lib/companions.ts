@@ -0,0 +1,82 @@
+import { asGuestData, getGuestName, type Guest } from "@/lib/guests";
+
+// Companion rows are created by the database from the rider's row; see
+// the sync_guest_companion trigger
+export const isCompanion = (guest: Pick<Guest, "parent_guest_id">) =>
+  guest.parent_guest_id !== null;
+
+// Rider row id -> that rider's companion row
+export const indexCompanions = (guests: Guest[]) => {
+  const companions = new Map<string, Guest>();
+  guests.forEach((guest) => {
+    if (guest.parent_guest_id) companions.set(guest.parent_guest_id, guest);
+  });
+  return companions;
+};
+
+// Lists each companion right after their rider
+export const groupWithCompanions = (guests: Guest[]) => {
+  const companions = indexCompanions(guests);
+  const ids = new Set(guests.map((guest) => guest.id));
+  return guests.flatMap((guest) => {
+    if (guest.parent_guest_id) {
+      return ids.has(guest.parent_guest_id) ? [] : [guest];
+    }
+    const companion = companions.get(guest.id);
+    return companion ? [guest, companion] : [guest];
+  });
+};
+
+// The rider already checked in but their companion hasn't yet
+export const isCompanionPending = (
+  rider: Guest,
+  companions: Map<string, Guest>
+) => {
+  const companion = companions.get(rider.id);
+  return rider.confirmed && !!companion && !companion.confirmed;
+};
+
+export interface AttendanceCount {
+  total: number;
+  confirmed: number;
+}
+
+export interface AttendanceStats {
+  riders: AttendanceCount;
+  companions: AttendanceCount;
+  companionsPending: number;
+}
+
+export const getAttendanceStats = (guests: Guest[]): AttendanceStats => {
+  const companions = indexCompanions(guests);
+  const stats: AttendanceStats = {
+    riders: { total: 0, confirmed: 0 },
+    companions: { total: 0, confirmed: 0 },
+    companionsPending: 0,
+  };
+  guests.forEach((guest) => {
+    const count = isCompanion(guest) ? stats.companions : stats.riders;
+    count.total++;
+    if (guest.confirmed) count.confirmed++;
+    if (isCompanionPending(guest, companions)) stats.companionsPending++;
+  });
+  return stats;
+};
+
+/**
+ * One line relating a guest to the other half of the pair, for the
+ * check-in screens: who a companion came with, or whether a rider's
+ * companion is still to arrive.
+ */
+export const describeCompanionLink = (guest: Guest, guests: Guest[]) => {
+  if (guest.parent_guest_id) {
+    const rider = guests.find((g) => g.id === guest.parent_guest_id);
+    return rider
+      ? `Acompañante de ${getGuestName(asGuestData(rider.guest_data), rider.guest_id)}`
+      : "Acompañante";
+  }
+  const companion = guests.find((g) => g.parent_guest_id === guest.id);
+  if (!companion) return undefined;
+  const name = getGuestName(asGuestData(companion.guest_data), companion.guest_id);
+  return `Acompañante: ${name} (${companion.confirmed ? "ya ingresó" : "pendiente"})`;
+};
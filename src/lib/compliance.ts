@@ -0,0 +1,137 @@
+import {
+  getGuestField,
+  getGuestFlag,
+  isAffirmative,
+  isNegative,
+  type GuestFieldKey,
+} from "@/lib/guestFields";
+import {
+  asGuestData,
+  getGuestName,
+  type Guest,
+  type GuestData,
+  type GuestRow,
+} from "@/lib/guests";
+
+export type ComplianceKey = Extract<GuestFieldKey, "license" | "insurance">;
+
+// "missing" is an explicit "No"; "unknown" is a blank or unclear answer
+export type ComplianceStatus = "ok" | "missing" | "unknown";
+
+export interface ComplianceRule {
+  key: ComplianceKey;
+  label: string;
+  messages: Record<Exclude<ComplianceStatus, "ok">, string>;
+}
+
+// What a rider needs to take part in the rides
+export const COMPLIANCE_RULES: ComplianceRule[] = [
+  {
+    key: "license",
+    label: "Carnet",
+    messages: {
+      missing: "Declaró no tener carnet vigente",
+      unknown: "Carnet vigente sin declarar",
+    },
+  },
+  {
+    key: "insurance",
+    label: "Seguro",
+    messages: {
+      missing: "Declaró no tener seguro vigente",
+      unknown: "Seguro vigente sin declarar",
+    },
+  },
+];
+
+export interface ComplianceIssue {
+  rule: ComplianceRule;
+  status: Exclude<ComplianceStatus, "ok">;
+  message: string;
+}
+
+export const getComplianceStatus = (
+  data: GuestData | GuestRow,
+  key: ComplianceKey
+): ComplianceStatus => {
+  const answer = getGuestField(data, key);
+  if (isAffirmative(answer)) return "ok";
+  return answer && isNegative(answer) ? "missing" : "unknown";
+};
+
+export const checkRowCompliance = (
+  data: GuestData | GuestRow
+): ComplianceIssue[] =>
+  COMPLIANCE_RULES.flatMap((rule) => {
+    const status = getComplianceStatus(data, rule.key);
+    return status === "ok"
+      ? []
+      : [{ rule, status, message: rule.messages[status] }];
+  });
+
+// Companions don't ride, so the rules only apply to riders
+export const checkCompliance = (
+  guest: Pick<Guest, "guest_data" | "parent_guest_id">
+): ComplianceIssue[] =>
+  guest.parent_guest_id ? [] : checkRowCompliance(asGuestData(guest.guest_data));
+
+export const isCompliant = (guest: Pick<Guest, "guest_data" | "parent_guest_id">) =>
+  checkCompliance(guest).length === 0;
+
+export interface ComplianceEntry {
+  guest: Guest;
+  name: string;
+  document: string;
+  phone: string;
+  motorcycle: string;
+  rides: boolean;
+  statuses: Record<ComplianceKey, ComplianceStatus>;
+  issues: ComplianceIssue[];
+}
+
+/**
+ * Riders with something missing, sorted by name, for the marshals'
+ * check before the rides.
+ */
+export const buildComplianceReport = (guests: Guest[]): ComplianceEntry[] =>
+  guests
+    .filter((guest) => !guest.parent_guest_id)
+    .map((guest) => {
+      const data = asGuestData(guest.guest_data);
+      return {
+        guest,
+        name: getGuestName(data, guest.guest_id),
+        document: getGuestField(data, "document"),
+        phone: getGuestField(data, "phone"),
+        motorcycle: getGuestField(data, "motorcycle"),
+        rides: getGuestFlag(data, "rides"),
+        statuses: {
+          license: getComplianceStatus(data, "license"),
+          insurance: getComplianceStatus(data, "insurance"),
+        },
+        issues: checkRowCompliance(data),
+      };
+    })
+    .filter((entry) => entry.issues.length > 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+const STATUS_LABELS: Record<ComplianceStatus, string> = {
+  ok: "Sí",
+  missing: "No",
+  unknown: "Sin declarar",
+};
+
+export const getComplianceStatusLabel = (status: ComplianceStatus) =>
+  STATUS_LABELS[status];
+
+export const toComplianceRows = (entries: ComplianceEntry[]) =>
+  entries.map((entry) => ({
+    Nombre: entry.name,
+    DNI: entry.document,
+    Moto: entry.motorcycle,
+    Teléfono: entry.phone,
+    Carnet: getComplianceStatusLabel(entry.statuses.license),
+    Seguro: getComplianceStatusLabel(entry.statuses.insurance),
+    Rodadas: entry.rides ? "Sí" : "No",
+    Ingresó: entry.guest.confirmed ? "Sí" : "No",
+  }));
@@ -0,0 +1,15 @@
+const DEVICE_NAME_KEY = "moto-evento:device-name";
+
+// Name of this device or gate ("Puerta 2"), recorded with every check-in
+export const getDeviceName = () => {
+  const stored = localStorage.getItem(DEVICE_NAME_KEY);
+  if (stored) return stored;
+
+  const generated = `Dispositivo ${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+  localStorage.setItem(DEVICE_NAME_KEY, generated);
+  return generated;
+};
+
+export const setDeviceName = (name: string) => {
+  localStorage.setItem(DEVICE_NAME_KEY, name.trim() || getDeviceName());
+};
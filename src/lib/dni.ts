@@ -0,0 +1,90 @@
+import { isCompanion } from "@/lib/companions";
+import { getGuestField } from "@/lib/guestFields";
+import { asGuestData, type Guest } from "@/lib/guests";
+
+export interface DniData {
+  documentNumber: string;
+  lastName: string;
+  firstName: string;
+  sex: string;
+  // ISO yyyy-mm-dd
+  birthDate: string | null;
+}
+
+export interface DocumentMatch {
+  guest: Guest;
+  // Whether the matched row is a rider or a companion
+  role: "guest" | "companion";
+}
+
+export const normalizeDocument = (value: string) => value.replace(/\D/g, "");
+
+const parseDate = (value: string | undefined) => {
+  const match = value?.trim().match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : null;
+};
+
+/**
+ * Parses the PDF417 barcode of the Argentine DNI card. Cards since 2009
+ * read "tramite@APELLIDO@NOMBRES@SEXO@DNI@EJEMPLAR@NACIMIENTO@EMISION@...";
+ * older ones start with "@DNI@EJEMPLAR@..." and carry the names later on.
+ */
+export const parseDniBarcode = (raw: string): DniData | null => {
+  // USB scanners set to a US layout type '"' for '@' on Spanish keyboards
+  const text = raw.includes("@") ? raw : raw.replace(/"/g, "@");
+  const fields = text.trim().split("@").map((field) => field.trim());
+
+  if (fields.length >= 9 && /^\d+$/.test(fields[0])) {
+    const documentNumber = normalizeDocument(fields[4]);
+    if (!documentNumber) return null;
+    return {
+      documentNumber,
+      lastName: fields[1],
+      firstName: fields[2],
+      sex: fields[3],
+      birthDate: parseDate(fields[6]),
+    };
+  }
+
+  if (fields.length >= 9 && fields[0] === "") {
+    const documentNumber = normalizeDocument(fields[1]);
+    if (!documentNumber) return null;
+    return {
+      documentNumber,
+      lastName: fields[4],
+      firstName: fields[5],
+      sex: fields[8],
+      birthDate: parseDate(fields[7]),
+    };
+  }
+
+  return null;
+};
+
+// A bare number typed or scanned from the card's front
+export const parseDocumentInput = (text: string) => {
+  const digits = normalizeDocument(text);
+  return /^[\d.\s-]+$/.test(text.trim()) && digits.length >= 6 && digits.length <= 9
+    ? digits
+    : null;
+};
+
+export const formatDocument = (documentNumber: string) =>
+  Number(documentNumber).toLocaleString("es-AR");
+
+// Riders first, so a number shared by mistake favours the rider's own row.
+// Companions have rows of their own, matched by their DNI like riders.
+export const findGuestsByDocument = (
+  guests: Guest[],
+  documentNumber: string
+): DocumentMatch[] =>
+  guests
+    .filter((guest) => {
+      const value = getGuestField(asGuestData(guest.guest_data), "document");
+      return value && normalizeDocument(value) === documentNumber;
+    })
+    .map((guest): DocumentMatch => ({
+      guest,
+      role: isCompanion(guest) ? "companion" : "guest",
+    }))
+    .sort((a, b) => Number(a.role === "companion") - Number(b.role === "companion"));
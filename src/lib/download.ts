@@ -0,0 +1,60 @@
+import Papa from "papaparse";
+import * as XLSX from "xlsx";
+import { normalizeText } from "@/lib/columnMapping";
+
+export const downloadUrl = (url: string, fileName: string) => {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, fileName);
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1_000);
+};
+
+// Turns an event or guest name into a file name, e.g. "cena-show"
+export const slugify = (text: string, fallback = "archivo") =>
+  normalizeText(text).replace(/ /g, "-") || fallback;
+
+/**
+ * Saves rows as a CSV file. The BOM makes Excel read the accents right;
+ * Spanish-locale Excel expects ";" as the separator. Values starting with
+ * "=", "+", "-" or "@" get a leading quote so a spreadsheet shows them
+ * instead of running them as formulas.
+ */
+export const downloadCsv = (
+  rows: Record<string, string | number>[],
+  fileName: string,
+  delimiter = ","
+) => {
+  const csv = Papa.unparse(rows, { delimiter, escapeFormulae: true });
+  downloadBlob(
+    new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }),
+    fileName
+  );
+};
+
+// Strings go in as text-formatted cells, so Excel never turns an answer
+// into a formula, a date or a number, not even after editing the cell
+const toCell = (value: string | number): XLSX.CellObject =>
+  typeof value === "string" ? { t: "s", v: value, z: "@" } : { t: "n", v: value };
+
+// Saves rows as a single-sheet Excel workbook
+export const downloadXlsx = (
+  rows: Record<string, string | number>[],
+  fileName: string,
+  sheetName = "Invitados"
+) => {
+  const cells = rows.map((row) =>
+    Object.fromEntries(
+      Object.entries(row).map(([label, value]) => [label, toCell(value)])
+    )
+  );
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(cells), sheetName);
+  XLSX.writeFile(workbook, fileName);
+};
@@ -0,0 +1,85 @@
+import { indexCompanions } from "@/lib/companions";
+import { getAllergies } from "@/lib/guestAlerts";
+import { getGuestField } from "@/lib/guestFields";
+import { asGuestData, getGuestName, type Guest } from "@/lib/guests";
+
+export interface EmergencyPartner {
+  guest: Guest;
+  name: string;
+  document: string;
+  phone: string;
+  role: "rider" | "companion";
+}
+
+export interface EmergencyInfo {
+  guest: Guest;
+  name: string;
+  document: string;
+  phone: string;
+  motorcycle: string;
+  bloodType: string;
+  // null when none declared; "" when declared without detail
+  allergies: string | null;
+  emergencyContact: string;
+  emergencyPhones: string[];
+  // The rider a companion came with, or the rider's companion
+  partner?: EmergencyPartner;
+}
+
+/**
+ * Pulls the dialable numbers out of a free-text contact such as
+ * "Marta (esposa) 351 555-1234". Shorter digit runs are ages or
+ * house numbers, not phones.
+ */
+export const extractPhoneNumbers = (text: string) =>
+  (text.match(/\+?\d[\d\s().-]{6,}\d/g) ?? [])
+    .map((match) => match.replace(/[^\d+]/g, ""))
+    .filter((number) => number.replace("+", "").length >= 8);
+
+export const telHref = (number: string) => `tel:${number}`;
+
+const toPartner = (
+  guest: Guest,
+  role: EmergencyPartner["role"]
+): EmergencyPartner => {
+  const data = asGuestData(guest.guest_data);
+  return {
+    guest,
+    name: getGuestName(data, guest.guest_id),
+    document: getGuestField(data, "document"),
+    phone: getGuestField(data, "phone"),
+    role,
+  };
+};
+
+// Medical data for every guest, in the list's order
+export const buildEmergencyList = (guests: Guest[]): EmergencyInfo[] => {
+  const byId = new Map(guests.map((guest) => [guest.id, guest]));
+  const companions = indexCompanions(guests);
+
+  return guests.map((guest) => {
+    const data = asGuestData(guest.guest_data);
+    const emergencyContact = getGuestField(data, "emergencyContact");
+    const rider = guest.parent_guest_id
+      ? byId.get(guest.parent_guest_id)
+      : undefined;
+    const companion = companions.get(guest.id);
+
+    return {
+      guest,
+      name: getGuestName(data, guest.guest_id),
+      document: getGuestField(data, "document"),
+      phone: getGuestField(data, "phone"),
+      motorcycle: getGuestField(data, "motorcycle"),
+      bloodType: getGuestField(data, "bloodType"),
+      allergies: getAllergies(data),
+      emergencyContact,
+      emergencyPhones: extractPhoneNumbers(emergencyContact),
+      partner: rider
+        ? toPartner(rider, "rider")
+        : companion
+        ? toPartner(companion, "companion")
+        : undefined,
+    };
+  });
+};
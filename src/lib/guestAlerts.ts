@@ -0,0 +1,47 @@
+import { checkCompliance, type ComplianceKey } from "@/lib/compliance";
+import { getGuestField, getGuestFlag, isNegative } from "@/lib/guestFields";
+import { asGuestData, type Guest, type GuestData } from "@/lib/guests";
+
+export type GuestAlertSeverity = "danger" | "warning";
+
+export interface GuestAlert {
+  key: "allergies" | ComplianceKey;
+  severity: GuestAlertSeverity;
+  message: string;
+}
+
+/**
+ * What the guest declared being allergic to: null when nothing, an empty
+ * string when they said yes without saying to what.
+ */
+export const getAllergies = (data: GuestData): string | null => {
+  const detail = getGuestField(data, "allergies");
+  const allergies = isNegative(detail) ? "" : detail;
+  return getGuestFlag(data, "isAllergic") || allergies ? allergies : null;
+};
+
+// Things the gate should notice before letting a rider in: allergies and
+// the compliance rules, which companions are exempt from
+export const getGuestAlerts = (
+  guest: Pick<Guest, "guest_data" | "parent_guest_id">
+): GuestAlert[] => {
+  const data = asGuestData(guest.guest_data);
+  const alerts: GuestAlert[] = [];
+
+  const allergies = getAllergies(data);
+  if (allergies !== null) {
+    alerts.push({
+      key: "allergies",
+      severity: "danger",
+      message: allergies ? `Alérgico: ${allergies}` : "Alérgico (sin detalle)",
+    });
+  }
+  checkCompliance(guest).forEach((issue) => {
+    alerts.push({
+      key: issue.rule.key,
+      severity: issue.status === "missing" ? "danger" : "warning",
+      message: issue.message,
+    });
+  });
+  return alerts;
+};
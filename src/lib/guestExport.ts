@@ -0,0 +1,148 @@
+import { checkCompliance } from "@/lib/compliance";
+import { GUEST_FIELD_LABELS } from "@/lib/guestFields";
+import { asGuestData, getGuestName, ORIGIN_LABELS, type Guest } from "@/lib/guests";
+import type { MotorcycleModel } from "@/lib/motorcycleCatalogue";
+import { getGuestMotorcycle } from "@/lib/motorcycles";
+import { getGuestPlace, type PlaceOverrides } from "@/lib/places";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export interface ExportContext {
+  catalogue: MotorcycleModel[];
+  placeOverrides: PlaceOverrides;
+  // Every guest of the event, to name a companion's rider
+  byId: Map<string, Guest>;
+}
+
+export interface ExportColumn {
+  // Unique within the export; also the column header
+  label: string;
+  // Check-in and normalized values, as opposed to the answers in guest_data
+  computed: boolean;
+  value: (guest: Guest, context: ExportContext) => string;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// "2026-10-19 14:05" in local time. Exported as text in both formats, so
+// it reads the same in any locale and still sorts in time order.
+export const formatExportDate = (value: string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+};
+
+const answerColumn = (label: string): ExportColumn => ({
+  label,
+  computed: false,
+  value: (guest) => {
+    const value = asGuestData(guest.guest_data)[label];
+    if (value === null || value === undefined) return "";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  },
+});
+
+const COMPUTED_COLUMNS: ExportColumn[] = [
+  {
+    label: "ID invitado",
+    computed: true,
+    value: (guest) => guest.guest_id,
+  },
+  {
+    label: "Ingresó",
+    computed: true,
+    value: (guest) => (guest.confirmed ? "Sí" : "No"),
+  },
+  {
+    label: "Hora de ingreso",
+    computed: true,
+    value: (guest) => formatExportDate(guest.confirmed_at),
+  },
+  {
+    label: "Origen",
+    computed: true,
+    value: (guest) => ORIGIN_LABELS[guest.origin] ?? guest.origin,
+  },
+  {
+    label: "Acompañante de",
+    computed: true,
+    value: (guest, { byId }) => {
+      const rider = guest.parent_guest_id && byId.get(guest.parent_guest_id);
+      return rider
+        ? getGuestName(asGuestData(rider.guest_data), rider.guest_id)
+        : "";
+    },
+  },
+  {
+    label: "Marca",
+    computed: true,
+    value: (guest, { catalogue }) =>
+      getGuestMotorcycle(guest, catalogue)?.make ?? "",
+  },
+  {
+    label: "Modelo",
+    computed: true,
+    value: (guest, { catalogue }) =>
+      getGuestMotorcycle(guest, catalogue)?.model ?? "",
+  },
+  {
+    label: "Provincia normalizada",
+    computed: true,
+    value: (guest, { placeOverrides }) =>
+      guest.parent_guest_id
+        ? ""
+        : getGuestPlace(guest, placeOverrides).province ?? "",
+  },
+  {
+    label: "Ciudad normalizada",
+    computed: true,
+    value: (guest, { placeOverrides }) =>
+      guest.parent_guest_id ? "" : getGuestPlace(guest, placeOverrides).city ?? "",
+  },
+  {
+    label: "Carnet y seguro",
+    computed: true,
+    value: (guest) =>
+      checkCompliance(guest)
+        .map((issue) => issue.message)
+        .join(". "),
+  },
+];
+
+/**
+ * Everything a guest row can be exported with: the check-in and
+ * normalized values first, then the form answers, then any extra columns
+ * kept from an upload or added to the registration form.
+ */
+export const getExportColumns = (guests: Guest[]): ExportColumn[] => {
+  const known = new Set([
+    ...GUEST_FIELD_LABELS,
+    ...COMPUTED_COLUMNS.map((column) => column.label),
+  ]);
+  const extra = new Set<string>();
+  guests.forEach((guest) =>
+    Object.keys(asGuestData(guest.guest_data)).forEach((key) => {
+      if (!known.has(key)) extra.add(key);
+    })
+  );
+
+  return [
+    ...COMPUTED_COLUMNS,
+    ...GUEST_FIELD_LABELS.map(answerColumn),
+    ...[...extra].sort((a, b) => a.localeCompare(b)).map(answerColumn),
+  ];
+};
+
+export const buildExportRows = (
+  guests: Guest[],
+  columns: ExportColumn[],
+  context: ExportContext
+): Record<string, string>[] =>
+  guests.map((guest) =>
+    Object.fromEntries(
+      columns.map((column) => [column.label, column.value(guest, context)])
+    )
+  );
@@ -0,0 +1,156 @@
+import type { GuestData, GuestRow } from "@/lib/guests";
+
+export type GuestFieldKey =
+  | "document"
+  | "fullName"
+  | "bloodType"
+  | "phone"
+  | "hasCompanion"
+  | "companionName"
+  | "companionDocument"
+  | "emergencyContact"
+  | "license"
+  | "insurance"
+  | "dinner"
+  | "dietaryRestriction"
+  | "motorcycle"
+  | "city"
+  | "province"
+  | "isAllergic"
+  | "allergies"
+  | "rides";
+
+export interface GuestField {
+  key: GuestFieldKey;
+  // Column name used inside guest_data; matches the original Google Form
+  label: string;
+  aliases: string[];
+}
+
+export const GUEST_FIELDS: GuestField[] = [
+  {
+    key: "document",
+    label: "DNI",
+    aliases: ["documento", "nro de documento", "numero de documento", "d.n.i"],
+  },
+  {
+    key: "fullName",
+    label: "Apellido y Nombre",
+    aliases: ["nombre y apellido", "nombre completo", "nombre", "participante"],
+  },
+  {
+    key: "bloodType",
+    label: "Grupo sanguíneo",
+    aliases: ["grupo y factor", "factor sanguineo", "tipo de sangre", "sangre"],
+  },
+  {
+    key: "phone",
+    label: "Teléfono",
+    aliases: ["celular", "telefono de contacto", "whatsapp", "tel"],
+  },
+  {
+    key: "hasCompanion",
+    label: "Venís acompañado",
+    aliases: ["acompañado", "venis con acompañante", "trae acompañante"],
+  },
+  {
+    key: "companionName",
+    label: "Apellido y Nombre del acompañante",
+    aliases: ["nombre del acompañante", "acompañante", "nombre acompañante"],
+  },
+  {
+    key: "companionDocument",
+    label: "DNI Acompañante",
+    aliases: ["dni del acompañante", "documento acompañante"],
+  },
+  {
+    key: "emergencyContact",
+    label: "Contacto de Emergencia",
+    aliases: ["en caso de emergencia", "telefono de emergencia", "emergencia"],
+  },
+  {
+    key: "license",
+    label: "Tenés carnet Vigente?",
+    aliases: ["carnet vigente", "licencia de conducir", "carnet"],
+  },
+  {
+    key: "insurance",
+    label: "Tenés Seguro vigente?",
+    aliases: ["seguro vigente", "seguro"],
+  },
+  {
+    key: "dinner",
+    label: "Cena show día sábado 11 (no incluye bebida)",
+    aliases: ["cena show", "cena", "asistis a la cena"],
+  },
+  {
+    key: "dietaryRestriction",
+    label: "Tenés alguna restricción alimentaria?",
+    aliases: ["restriccion alimentaria", "dieta", "celiaco", "vegetariano"],
+  },
+  {
+    key: "motorcycle",
+    label: "Moto en la que venís",
+    aliases: ["moto", "motocicleta", "marca y modelo", "modelo de moto"],
+  },
+  {
+    key: "city",
+    label: "Ciudad de donde nos visitas",
+    aliases: ["ciudad", "localidad", "de donde nos visitas"],
+  },
+  {
+    key: "province",
+    label: "Provincia",
+    aliases: ["prov", "provincia de origen"],
+  },
+  {
+    key: "isAllergic",
+    label: "Sos alérgico a algo?",
+    aliases: ["alergico", "tenes alergias", "alergias"],
+  },
+  {
+    key: "allergies",
+    label: "A que sos alérgico?",
+    aliases: ["a que", "detalle de alergias", "cual alergia"],
+  },
+  {
+    key: "rides",
+    label: "Vas a realizar las rodadas",
+    aliases: ["rodadas", "rodada", "participas de las rodadas"],
+  },
+];
+
+export const GUEST_FIELD_LABELS = GUEST_FIELDS.map((field) => field.label);
+
+const FIELDS_BY_KEY = new Map(GUEST_FIELDS.map((field) => [field.key, field]));
+
+export const getGuestFieldLabel = (key: GuestFieldKey) =>
+  FIELDS_BY_KEY.get(key)?.label ?? key;
+
+export const getGuestField = (
+  data: GuestData | GuestRow,
+  key: GuestFieldKey
+): string => {
+  const value = data[getGuestFieldLabel(key)];
+  return value === undefined || value === null ? "" : String(value).trim();
+};
+
+const AFFIRMATIVE = new Set(["si", "s", "yes", "true", "1", "x"]);
+const NEGATIVE = new Set(["", "no", "n", "ninguna", "ninguno", "nada", "na"]);
+
+const firstWord = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .find(Boolean) ?? "";
+
+// Form answers come as "Sí", "SI", "si, ..." and the like
+export const isAffirmative = (value: string) => AFFIRMATIVE.has(firstWord(value));
+
+// Free-text answers such as "No", "Ninguna" or "-" that mean nothing to report
+export const isNegative = (value: string) => NEGATIVE.has(firstWord(value));
+
+export const getGuestFlag = (data: GuestData | GuestRow, key: GuestFieldKey) =>
+  isAffirmative(getGuestField(data, key));
@@ -0,0 +1,142 @@
+import type { Json } from "@/integrations/supabase/types";
+import { normalizeText } from "@/lib/columnMapping";
+import { normalizeDocument } from "@/lib/dni";
+import { getGuestFieldLabel } from "@/lib/guestFields";
+import type { GuestRow } from "@/lib/guests";
+
+export interface IdentityValidation {
+  // Indexes of rows whose identity columns are all empty
+  emptyRows: number[];
+  // Guest IDs shared by more than one row, with the offending row indexes
+  duplicates: { guestId: string; rows: number[] }[];
+}
+
+const ID_TOKENS = ["id", "dni", "documento", "codigo", "legajo"];
+const DOCUMENT_TOKENS = ["dni", "documento"];
+
+// What an event uses until an admin picks its identity columns
+export const DEFAULT_IDENTITY_COLUMNS = [getGuestFieldLabel("document")];
+
+// Columns used for the hashed fallback, in order of stability
+const FALLBACK_COLUMNS = [
+  getGuestFieldLabel("fullName"),
+  getGuestFieldLabel("phone"),
+];
+
+// cyrb53: small, fast 53-bit string hash, stable across browsers
+const hashString = (value: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const cellText = (row: GuestRow, column: string) => {
+  const value = row[column];
+  return value === undefined || value === null ? "" : String(value).trim();
+};
+
+/**
+ * Matches headers that name an identifier as a whole word, so
+ * "Apellido y Nombre" no longer passes for an ID column.
+ */
+export const looksLikeIdColumn = (header: string) =>
+  normalizeText(header)
+    .split(" ")
+    .some((token) => ID_TOKENS.includes(token));
+
+const isDocumentColumn = (header: string) =>
+  normalizeText(header)
+    .split(" ")
+    .some((token) => DOCUMENT_TOKENS.includes(token));
+
+// "12.345.678" and "12 345 678" are "12345678"; a passport keeps its letters
+const documentKey = (value: string) =>
+  /^[\d.\s-]+$/.test(value) ? normalizeDocument(value) : value;
+
+/**
+ * Builds the guest ID from the chosen identity columns. DNI columns count
+ * their digits only, so "12.345.678" in a spreadsheet and "12345678" typed
+ * at the gate are one guest. Any other single column is used verbatim;
+ * composites are normalized and joined. Without columns the ID is a hash
+ * of the guest's name and phone, which stays the same between uploads as
+ * long as those values do. register_guest builds the same IDs in SQL.
+ */
+export const buildGuestId = (row: GuestRow, columns: string[]) => {
+  if (columns.length === 1) {
+    const value = cellText(row, columns[0]);
+    return isDocumentColumn(columns[0]) ? documentKey(value) : value;
+  }
+  if (columns.length > 1) {
+    const parts = columns.map((column) =>
+      isDocumentColumn(column)
+        ? normalizeText(documentKey(cellText(row, column)))
+        : normalizeText(cellText(row, column))
+    );
+    return parts.every((part) => !part) ? "" : parts.join("|");
+  }
+
+  const fallback = FALLBACK_COLUMNS.map((column) =>
+    normalizeText(cellText(row, column))
+  ).filter(Boolean);
+  const source =
+    fallback.length > 0
+      ? fallback.join("|")
+      : normalizeText(Object.values(row).map(String).join("|"));
+  return source ? `hash_${hashString(source)}` : "";
+};
+
+export const validateIdentity = (
+  rows: GuestRow[],
+  columns: string[]
+): IdentityValidation => {
+  const emptyRows: number[] = [];
+  const rowsById = new Map<string, number[]>();
+
+  rows.forEach((row, index) => {
+    const guestId = buildGuestId(row, columns);
+    if (!guestId) {
+      emptyRows.push(index);
+      return;
+    }
+    rowsById.set(guestId, [...(rowsById.get(guestId) ?? []), index]);
+  });
+
+  const duplicates = [...rowsById]
+    .filter(([, indexes]) => indexes.length > 1)
+    .map(([guestId, indexes]) => ({ guestId, rows: indexes }));
+
+  return { emptyRows, duplicates };
+};
+
+export const isIdentityValid = (validation: IdentityValidation) =>
+  validation.emptyRows.length === 0 && validation.duplicates.length === 0;
+
+/**
+ * Picks the first column that works as a unique, non-empty identifier,
+ * preferring the canonical DNI field. Falls back to hashed IDs.
+ */
+export const suggestIdentityColumns = (rows: GuestRow[], headers: string[]) => {
+  const documentLabel = getGuestFieldLabel("document");
+  const candidates = [
+    ...headers.filter((header) => header === documentLabel),
+    ...headers.filter((header) => header !== documentLabel && looksLikeIdColumn(header)),
+  ];
+
+  const column = candidates.find((candidate) =>
+    isIdentityValid(validateIdentity(rows, [candidate]))
+  );
+  return column ? [column] : [];
+};
+
+// The event's stored choice, or null while it has none
+export const parseIdentityColumns = (value: Json | null | undefined) =>
+  Array.isArray(value) && value.every((column) => typeof column === "string")
+    ? (value as string[])
+    : null;
@@ -0,0 +1,237 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { isCompanion } from "@/lib/companions";
+import {
+  buildGuestId,
+  isIdentityValid,
+  validateIdentity,
+  type IdentityValidation,
+} from "@/lib/guestIdentity";
+import { asGuestData, type Guest, type GuestRow } from "@/lib/guests";
+import type { MotorcycleModel } from "@/lib/motorcycleCatalogue";
+import { normalizeRowMotorcycle } from "@/lib/motorcycles";
+
+export type ImportChangeType = "new" | "updated" | "unchanged";
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ImportEntry {
+  guestId: string;
+  row: GuestRow;
+  type: ImportChangeType;
+  changes: FieldChange[];
+  existing?: Guest;
+}
+
+// Result of comparing an uploaded file against the current `guests` table
+export interface ImportPlan {
+  eventId: string;
+  entries: ImportEntry[];
+  // Guests stored in the database that are missing from the uploaded file
+  removed: Guest[];
+  headers: string[];
+  // Columns the guest ID is built from; empty means hashed IDs
+  identityColumns: string[];
+  validation: IdentityValidation;
+}
+
+export interface ImportSummary {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  removed: Guest[];
+}
+
+const UPSERT_CHUNK_SIZE = 500;
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const isSameGuestData = (a: unknown, b: unknown) =>
+  stableStringify(a) === stableStringify(b);
+
+export const fetchAllGuests = async (eventId: string): Promise<Guest[]> => {
+  const { data, error } = await supabase
+    .from("guests")
+    .select("*")
+    .eq("event_id", eventId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const diffGuestData = (before: unknown, after: GuestRow): FieldChange[] => {
+  const previous =
+    before && typeof before === "object" && !Array.isArray(before)
+      ? (before as Record<string, unknown>)
+      : {};
+  const fields = new Set([...Object.keys(previous), ...Object.keys(after)]);
+
+  return [...fields]
+    .filter((field) => !isSameGuestData(previous[field], after[field]))
+    .map((field) => ({ field, before: previous[field], after: after[field] }));
+};
+
+export const countImportChanges = (plan: ImportPlan) => {
+  const counts: Record<ImportChangeType, number> = {
+    new: 0,
+    updated: 0,
+    unchanged: 0,
+  };
+  plan.entries.forEach((entry) => counts[entry.type]++);
+  return counts;
+};
+
+/**
+ * Compares the uploaded rows with the event's current guests without
+ * writing anything, so the organizer can review the diff first.
+ */
+export const planGuestImport = async (
+  eventId: string,
+  rows: GuestRow[],
+  headers: string[],
+  identityColumns: string[]
+): Promise<ImportPlan> => {
+  // Companion rows follow their rider's row and never match the file
+  const existing = (await fetchAllGuests(eventId)).filter(
+    (guest) => !isCompanion(guest)
+  );
+  const existingById = new Map(existing.map((g) => [g.guest_id, g]));
+
+  // Duplicated or empty IDs are reported in `validation` and block the
+  // import; rows without an ID are left out of the plan.
+  const incoming = new Map<string, GuestRow>();
+  rows.forEach((row) => {
+    const guestId = buildGuestId(row, identityColumns);
+    if (guestId) incoming.set(guestId, row);
+  });
+
+  // Guests stored under an older ID scheme (e.g. the name-based IDs) are
+  // recognized by recomputing their ID from the stored guest_data.
+  const existingByComputedId = new Map<string, Guest>();
+  existing.forEach((guest) => {
+    if (incoming.has(guest.guest_id)) return;
+    const computed = buildGuestId(asGuestData(guest.guest_data), identityColumns);
+    if (computed && !existingByComputedId.has(computed)) {
+      existingByComputedId.set(computed, guest);
+    }
+  });
+
+  const matched = new Set<string>();
+  const entries: ImportEntry[] = [];
+  incoming.forEach((row, guestId) => {
+    const current = existingById.get(guestId) ?? existingByComputedId.get(guestId);
+    if (!current) {
+      entries.push({ guestId, row, type: "new", changes: [] });
+      return;
+    }
+    matched.add(current.id);
+    const changes = diffGuestData(current.guest_data, row);
+    if (current.guest_id !== guestId) {
+      changes.unshift({ field: "ID", before: current.guest_id, after: guestId });
+    }
+    entries.push({
+      guestId,
+      row,
+      type: changes.length > 0 ? "updated" : "unchanged",
+      changes,
+      existing: current,
+    });
+  });
+
+  // Walk-ins were never in the spreadsheet, so their absence means nothing
+  const removed = existing.filter(
+    (g) => !matched.has(g.id) && g.origin === "import"
+  );
+
+  return {
+    eventId,
+    entries,
+    removed,
+    headers,
+    identityColumns,
+    validation: validateIdentity(rows, identityColumns),
+  };
+};
+
+/**
+ * Writes a reviewed plan into the event's `guests` keyed on `guest_id`.
+ * Only `guest_data` and the bike normalized from it are written for
+ * existing guests, so `confirmed` and `confirmed_at` survive a re-upload.
+ * Companion rows are created and kept up to date by the database from the
+ * rider's companion columns. Nothing is deleted: guests missing from the
+ * file are returned in `removed` for the organizer to decide.
+ */
+export const applyGuestImport = async (
+  plan: ImportPlan,
+  catalogue: MotorcycleModel[]
+): Promise<ImportSummary> => {
+  if (!isIdentityValid(plan.validation)) {
+    throw new Error("El identificador elegido tiene valores vacíos o repetidos.");
+  }
+
+  // Guests whose ID changed are updated by row id, the rest upserted by guest_id
+  const rekeyed = plan.entries.filter(
+    (entry) => entry.existing && entry.existing.guest_id !== entry.guestId
+  );
+  for (const entry of rekeyed) {
+    const { error } = await supabase
+      .from("guests")
+      .update({
+        guest_id: entry.guestId,
+        guest_data: entry.row as Json,
+        motorcycle: normalizeRowMotorcycle(entry.row, catalogue),
+      })
+      .eq("id", entry.existing!.id);
+    if (error) throw error;
+  }
+
+  const toUpsert = plan.entries
+    .filter((entry) => entry.type !== "unchanged" && !rekeyed.includes(entry))
+    .map((entry) => ({
+      event_id: plan.eventId,
+      guest_id: entry.guestId,
+      guest_data: entry.row as Json,
+      motorcycle: normalizeRowMotorcycle(entry.row, catalogue),
+    }));
+
+  for (let i = 0; i < toUpsert.length; i += UPSERT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from("guests")
+      .upsert(toUpsert.slice(i, i + UPSERT_CHUNK_SIZE), {
+        onConflict: "event_id,guest_id",
+      });
+    if (error) throw error;
+  }
+
+  const counts = countImportChanges(plan);
+  return {
+    inserted: counts.new,
+    updated: counts.updated,
+    unchanged: counts.unchanged,
+    removed: plan.removed,
+  };
+};
+
+export const deleteGuests = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const { error } = await supabase.from("guests").delete().in("id", ids);
+  if (error) throw error;
+};
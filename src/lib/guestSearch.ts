@@ -0,0 +1,75 @@
+import { normalizeText } from "@/lib/columnMapping";
+import { normalizeDocument } from "@/lib/dni";
+import { getGuestField } from "@/lib/guestFields";
+import { asGuestData, getGuestName, type Guest } from "@/lib/guests";
+
+interface SearchEntry {
+  guest: Guest;
+  name: string;
+  motorcycle: string;
+  numbers: string[];
+}
+
+export const buildSearchIndex = (guests: Guest[]): SearchEntry[] =>
+  guests.map((guest) => {
+    const data = asGuestData(guest.guest_data);
+    return {
+      guest,
+      name: normalizeText(getGuestName(data, guest.guest_id)),
+      motorcycle: normalizeText(getGuestField(data, "motorcycle")),
+      numbers: (["document", "phone"] as const)
+        .map((key) => normalizeDocument(getGuestField(data, key)))
+        .filter(Boolean),
+    };
+  });
+
+// Lower is better; null when the entry doesn't match at all
+const scoreEntry = (entry: SearchEntry, text: string, digits: string) => {
+  if (digits) {
+    if (entry.numbers.some((n) => n === digits)) return 0;
+    if (entry.numbers.some((n) => n.startsWith(digits))) return 1;
+    if (digits.length >= 4 && entry.numbers.some((n) => n.includes(digits))) {
+      return 2;
+    }
+    return null;
+  }
+
+  const words = text.split(" ");
+
+  if (entry.name.startsWith(text)) return 0;
+  if (words.every((word) => entry.name.split(" ").some((w) => w.startsWith(word)))) {
+    return 1;
+  }
+  if (words.every((word) => entry.name.includes(word))) return 2;
+  if (words.every((word) => entry.motorcycle.includes(word))) return 3;
+  return null;
+};
+
+/**
+ * Type-ahead search for the gate: numbers match DNI and phone, text
+ * matches names and then motorcycles, accent- and case-insensitively.
+ * Companions have rows of their own, so they turn up under their own name
+ * and DNI. Best matches first.
+ */
+export const searchGuests = (
+  index: SearchEntry[],
+  query: string,
+  limit = 8
+): Guest[] => {
+  const trimmed = query.trim();
+  const isNumeric = /^[\d.\s-]+$/.test(trimmed);
+  const digits = isNumeric ? normalizeDocument(trimmed) : "";
+  const text = isNumeric ? "" : normalizeText(trimmed);
+  if (!digits && !text) return [];
+
+  return index
+    .map((entry) => ({ entry, score: scoreEntry(entry, text, digits) }))
+    .filter((result): result is { entry: SearchEntry; score: number } =>
+      result.score !== null
+    )
+    .sort(
+      (a, b) => a.score - b.score || a.entry.name.localeCompare(b.entry.name)
+    )
+    .slice(0, limit)
+    .map((result) => result.entry.guest);
+};
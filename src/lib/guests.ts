@@ -0,0 +1,23 @@
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+export type Guest = Tables<"guests">;
+
+export type GuestData = Record<string, Json | undefined>;
+
+// How a guest got on the list: an upload, the gate or the online form
+export const ORIGIN_LABELS: Record<string, string> = {
+  import: "Importado",
+  "walk-in": "En puerta",
+  online: "Online",
+};
+
+// Rows coming out of papaparse / xlsx before they are stored as guest_data
+export type GuestRow = Record<string, unknown>;
+
+export const asGuestData = (value: Json): GuestData =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as GuestData)
+    : {};
+
+export const getGuestName = (data: GuestData | GuestRow, fallback = ""): string =>
+  String(data["Apellido y Nombre"] || data["Nombre"] || fallback);
@@ -0,0 +1,122 @@
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface MotorcycleModel {
+  make: string;
+  model: string;
+  // Engine size in cc
+  displacement: number | null;
+  // Other ways riders write the model, e.g. "cb190" for "CB 190R"
+  aliases: string[];
+}
+
+// Shorthand riders use for a make, keyed by the make's name
+export const MAKE_ALIASES: Record<string, string[]> = {
+  "Harley-Davidson": ["harley", "hd"],
+  "Royal Enfield": ["royal", "enfield"],
+  Kawasaki: ["kawa", "kawasaky"],
+  BMW: ["beemer"],
+};
+
+const model = (
+  make: string,
+  name: string,
+  displacement: number | null,
+  aliases: string[] = []
+): MotorcycleModel => ({ make, model: name, displacement, aliases });
+
+/**
+ * The models seen most at Argentine rallies. Admins can edit a copy of
+ * this list; see useMotorcycleCatalogue.
+ */
+export const DEFAULT_MOTORCYCLE_CATALOGUE: MotorcycleModel[] = [
+  model("Honda", "CB 190R", 184, ["cb190"]),
+  model("Honda", "CB 250 Twister", 249, ["twister", "cb250"]),
+  model("Honda", "CB 500X", 471, ["cb500"]),
+  model("Honda", "CG 150 Titan", 149, ["titan", "cg150"]),
+  model("Honda", "CRF 1100L Africa Twin", 1084, ["africa twin", "crf1100"]),
+  model("Honda", "NC 750X", 745, ["nc750"]),
+  model("Honda", "Navi", 109),
+  model("Honda", "Wave 110S", 109, ["wave", "wave110"]),
+  model("Honda", "XR 150L", 149, ["xr150"]),
+  model("Honda", "XR 250 Tornado", 249, ["tornado", "xr250"]),
+  model("Honda", "XRE 300", 291, ["xre"]),
+  model("Yamaha", "Crypton 110", 110, ["crypton"]),
+  model("Yamaha", "FZ25", 249, ["fz 25", "fz250"]),
+  model("Yamaha", "FZ-S FI", 149, ["fzs", "fz16", "fz 16"]),
+  model("Yamaha", "MT-03", 321, ["mt03", "mt3"]),
+  model("Yamaha", "MT-07", 689, ["mt07", "mt7"]),
+  model("Yamaha", "Ténéré 700", 689, ["tenere", "t7"]),
+  model("Yamaha", "XTZ 125", 124, ["xtz125"]),
+  model("Yamaha", "XTZ 250", 249, ["xtz250"]),
+  model("Yamaha", "YBR 125", 124, ["ybr"]),
+  model("Yamaha", "YZF-R3", 321, ["r3"]),
+  model("Motomel", "Blitz 110", 110, ["blitz"]),
+  model("Motomel", "CG 150 S2", 150, ["s2", "cg150"]),
+  model("Motomel", "Sirius 190", 190, ["sirius"]),
+  model("Motomel", "Skua 150", 150, ["skua150"]),
+  model("Motomel", "Skua 250", 250, ["skua250"]),
+  model("Corven", "Energy 110", 107, ["energy"]),
+  model("Corven", "Hunter 150", 150, ["hunter"]),
+  model("Corven", "Triax 150", 150, ["triax"]),
+  model("Corven", "TXR 250", 250, ["txr"]),
+  model("Gilera", "Smash 110", 107, ["smash"]),
+  model("Gilera", "VC 150 Sahel", 150, ["sahel", "vc150"]),
+  model("Zanella", "Patagonian Eagle 250", 250, ["patagonian", "eagle"]),
+  model("Zanella", "RX 150", 150, ["rx150"]),
+  model("Zanella", "ZB 110", 107, ["zb110", "zb"]),
+  model("Bajaj", "Boxer 150", 144, ["boxer"]),
+  model("Bajaj", "Dominar 250", 248, ["dominar250", "d250"]),
+  model("Bajaj", "Dominar 400", 373, ["dominar400", "d400", "dominar"]),
+  model("Bajaj", "Rouser NS 160", 160, ["ns160"]),
+  model("Bajaj", "Rouser NS 200", 199, ["ns200", "rouser"]),
+  model("KTM", "390 Adventure", 373, ["390 adv", "adventure 390"]),
+  model("KTM", "890 Adventure", 889, ["890 adv", "adventure 890"]),
+  model("KTM", "Duke 200", 199, ["duke200"]),
+  model("KTM", "Duke 390", 373, ["duke390"]),
+  model("Kawasaki", "KLR 650", 652, ["klr"]),
+  model("Kawasaki", "Ninja 400", 399, ["ninja"]),
+  model("Kawasaki", "Versys 650", 649, ["versys"]),
+  model("Kawasaki", "Z900", 948, ["z 900"]),
+  model("BMW", "F 850 GS", 853, ["f850"]),
+  model("BMW", "G 310 GS", 313, ["g310"]),
+  model("BMW", "R 1200 GS", 1170, ["r1200", "1200 gs", "gs 1200"]),
+  model("BMW", "R 1250 GS", 1254, ["r1250", "1250 gs", "gs 1250"]),
+  model("Harley-Davidson", "Fat Boy", 1868, ["fatboy"]),
+  model("Harley-Davidson", "Sportster 883", 883, ["sportster", "883"]),
+  model("Harley-Davidson", "Street Glide", 1868, ["streetglide"]),
+  model("Royal Enfield", "Classic 350", 349, ["classic"]),
+  model("Royal Enfield", "Himalayan", 411),
+  model("Royal Enfield", "Interceptor 650", 648, ["interceptor"]),
+  model("Royal Enfield", "Meteor 350", 349, ["meteor"]),
+  model("Benelli", "302S", 300, ["302"]),
+  model("Benelli", "Leoncino 500", 500, ["leoncino"]),
+  model("Benelli", "TNT 15", 150, ["tnt"]),
+  model("Benelli", "TRK 502", 500, ["trk"]),
+  model("Suzuki", "GN 125", 124, ["gn125"]),
+  model("Suzuki", "V-Strom 650", 645, ["vstrom", "strom"]),
+  model("Triumph", "Bonneville T120", 1200, ["bonneville", "t120"]),
+  model("Triumph", "Street Triple", 765, ["street triple"]),
+  model("Triumph", "Tiger 900", 888, ["tiger"]),
+  model("Ducati", "Monster", 937),
+  model("Ducati", "Multistrada V4", 1158, ["multistrada"]),
+  model("Ducati", "Scrambler Icon", 803, ["scrambler"]),
+  model("Keeway", "RKS 150", 150, ["rks"]),
+];
+
+const catalogueSchema = z.array(
+  z.object({
+    make: z.string().min(1),
+    model: z.string().min(1),
+    displacement: z.number().int().positive().nullable(),
+    aliases: z.array(z.string()),
+  })
+);
+
+// The admins' copy from app_settings, or the default when there is none
+export const parseMotorcycleCatalogue = (value: Json | undefined) => {
+  const parsed = catalogueSchema.safeParse(value);
+  return parsed.success && parsed.data.length > 0
+    ? (parsed.data as MotorcycleModel[])
+    : DEFAULT_MOTORCYCLE_CATALOGUE;
+};
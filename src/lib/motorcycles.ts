@@ -0,0 +1,243 @@
+import type { Json } from "@/integrations/supabase/types";
+import { normalizeText } from "@/lib/columnMapping";
+import { getGuestField } from "@/lib/guestFields";
+import { asGuestData, type Guest, type GuestData, type GuestRow } from "@/lib/guests";
+import { MAKE_ALIASES, type MotorcycleModel } from "@/lib/motorcycleCatalogue";
+
+// Stored in guests.motorcycle; make is null when nothing was recognized
+export interface NormalizedMotorcycle {
+  make: string | null;
+  model: string | null;
+  displacement: number | null;
+}
+
+const UNRECOGNIZED: NormalizedMotorcycle = {
+  make: null,
+  model: null,
+  displacement: null,
+};
+
+const compact = (value: string) => normalizeText(value).replace(/ /g, "");
+
+// Every run of consecutive words glued together, so "honda cb 190"
+// yields "honda", "hondacb", "hondacb190", "cb", "cb190" and "190"
+const wordRuns = (text: string) => {
+  const words = normalizeText(text).split(" ").filter(Boolean);
+  const runs: string[] = [];
+  words.forEach((_, start) => {
+    let run = "";
+    words.slice(start).forEach((word) => {
+      run += word;
+      runs.push(run);
+    });
+  });
+  return runs;
+};
+
+// "cb190" also matches "cb190r": a letter suffix after the digits is a trim
+const matchesRun = (alias: string, run: string) =>
+  run === alias ||
+  (run.startsWith(alias) &&
+    /\d$/.test(alias) &&
+    /^[a-z]+$/.test(run.slice(alias.length)));
+
+// Length of the longest alias found in the text, 0 when none is
+const matchLength = (aliases: string[], runs: string[]) =>
+  Math.max(
+    0,
+    ...aliases
+      .filter((alias) => runs.some((run) => matchesRun(alias, run)))
+      .map((alias) => alias.length)
+  );
+
+const modelAliases = (entry: MotorcycleModel) =>
+  [entry.model, ...entry.aliases].map(compact).filter(Boolean);
+
+const makeAliases = (make: string) =>
+  [make, ...(MAKE_ALIASES[make] ?? [])].map(compact).filter(Boolean);
+
+// A plausible engine size typed on its own, as in "Motomel 150"
+const findDisplacement = (text: string) => {
+  const number = normalizeText(text)
+    .split(" ")
+    .map(Number)
+    .find((value) => Number.isInteger(value) && value >= 50 && value <= 2500);
+  return number ?? null;
+};
+
+/**
+ * Maps a free-text answer such as "honda cb 190", "CB190R" or
+ * "Honda CB-190" onto the catalogue. The longest matching alias wins,
+ * limited to the make when one is named; a make with no known model
+ * still counts for the brand ranking.
+ */
+export const normalizeMotorcycle = (
+  text: string,
+  catalogue: MotorcycleModel[]
+): NormalizedMotorcycle => {
+  const runs = wordRuns(text);
+  if (runs.length === 0) return UNRECOGNIZED;
+
+  const makes = [...new Set(catalogue.map((entry) => entry.make))];
+  const make = makes
+    .map((name) => ({ name, length: matchLength(makeAliases(name), runs) }))
+    .filter((match) => match.length > 0)
+    .sort((a, b) => b.length - a.length)[0]?.name;
+
+  const best = catalogue
+    .filter((entry) => !make || entry.make === make)
+    .map((entry) => ({ entry, length: matchLength(modelAliases(entry), runs) }))
+    .filter((match) => match.length > 0)
+    .sort((a, b) => b.length - a.length)[0]?.entry;
+
+  if (best) {
+    return {
+      make: best.make,
+      model: best.model,
+      displacement: best.displacement,
+    };
+  }
+  return make
+    ? { make, model: null, displacement: findDisplacement(text) }
+    : UNRECOGNIZED;
+};
+
+// Value for guests.motorcycle from a rider's answers
+export const normalizeRowMotorcycle = (
+  data: GuestData | GuestRow,
+  catalogue: MotorcycleModel[]
+) =>
+  normalizeMotorcycle(getGuestField(data, "motorcycle"), catalogue) as unknown as Json;
+
+export const asNormalizedMotorcycle = (value: Json | null) =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as unknown as NormalizedMotorcycle)
+    : null;
+
+export const isSameMotorcycle = (
+  a: NormalizedMotorcycle | null,
+  b: NormalizedMotorcycle | null
+) =>
+  a?.make === b?.make &&
+  a?.model === b?.model &&
+  a?.displacement === b?.displacement;
+
+/**
+ * The stored value, or the catalogue's answer for guests not normalized
+ * yet (e.g. registered online). Companions don't bring a bike.
+ */
+export const getGuestMotorcycle = (
+  guest: Guest,
+  catalogue: MotorcycleModel[]
+): NormalizedMotorcycle | null => {
+  if (guest.parent_guest_id) return null;
+  return (
+    asNormalizedMotorcycle(guest.motorcycle) ??
+    normalizeMotorcycle(
+      getGuestField(asGuestData(guest.guest_data), "motorcycle"),
+      catalogue
+    )
+  );
+};
+
+export const formatMotorcycle = (moto: NormalizedMotorcycle | null) => {
+  if (!moto?.make) return "";
+  const name = [moto.make, moto.model].filter(Boolean).join(" ");
+  return moto.displacement ? `${name} (${moto.displacement} cc)` : name;
+};
+
+/**
+ * Riders whose stored value no longer matches the catalogue, with the
+ * value to store. Used after a catalogue edit or an online sign-up.
+ */
+export const planMotorcycleNormalization = (
+  guests: Guest[],
+  catalogue: MotorcycleModel[]
+) =>
+  guests.flatMap((guest) => {
+    if (guest.parent_guest_id) return [];
+    const value = normalizeMotorcycle(
+      getGuestField(asGuestData(guest.guest_data), "motorcycle"),
+      catalogue
+    );
+    return isSameMotorcycle(asNormalizedMotorcycle(guest.motorcycle), value)
+      ? []
+      : [{ id: guest.id, value }];
+  });
+
+export interface MakeRanking {
+  make: string;
+  riders: number;
+  // Share of the riders with a recognized make, 0-100
+  share: number;
+  models: { model: string; riders: number }[];
+}
+
+export interface MotorcycleReport {
+  ranking: MakeRanking[];
+  recognized: number;
+  // Answers with no known make, most frequent first
+  unrecognized: { text: string; riders: number }[];
+}
+
+const NO_MODEL_LABEL = "Sin modelo";
+
+export const buildMotorcycleReport = (
+  guests: Guest[],
+  catalogue: MotorcycleModel[]
+): MotorcycleReport => {
+  const makes = new Map<string, Map<string, number>>();
+  const unrecognized = new Map<string, { text: string; riders: number }>();
+  let recognized = 0;
+
+  guests.forEach((guest) => {
+    if (guest.parent_guest_id) return;
+    const moto = getGuestMotorcycle(guest, catalogue);
+    if (moto?.make) {
+      recognized++;
+      const models = makes.get(moto.make) ?? new Map<string, number>();
+      const model = moto.model ?? NO_MODEL_LABEL;
+      models.set(model, (models.get(model) ?? 0) + 1);
+      makes.set(moto.make, models);
+      return;
+    }
+    const text = getGuestField(asGuestData(guest.guest_data), "motorcycle");
+    const key = normalizeText(text);
+    if (!key) return;
+    const entry = unrecognized.get(key) ?? { text: text.trim(), riders: 0 };
+    entry.riders++;
+    unrecognized.set(key, entry);
+  });
+
+  const ranking = [...makes.entries()]
+    .map(([make, models]) => {
+      const riders = [...models.values()].reduce((sum, count) => sum + count, 0);
+      return {
+        make,
+        riders,
+        share: recognized ? Math.round((riders / recognized) * 1000) / 10 : 0,
+        models: [...models.entries()]
+          .map(([model, count]) => ({ model, riders: count }))
+          .sort((a, b) => b.riders - a.riders),
+      };
+    })
+    .sort((a, b) => b.riders - a.riders || a.make.localeCompare(b.make));
+
+  return {
+    ranking,
+    recognized,
+    unrecognized: [...unrecognized.values()].sort((a, b) => b.riders - a.riders),
+  };
+};
+
+// One row per make, for the sponsors
+export const toMakeRankingRows = (ranking: MakeRanking[]) =>
+  ranking.map((entry, index) => ({
+    Puesto: index + 1,
+    Marca: entry.make,
+    Pilotos: entry.riders,
+    Porcentaje: `${entry.share}%`,
+    Modelos: entry.models
+      .map((model) => `${model.model} (${model.riders})`)
+      .join(", "),
+  }));
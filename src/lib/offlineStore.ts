@@ -0,0 +1,87 @@
+import type { Guest } from "@/lib/guests";
+
+// Minimal IndexedDB wrapper: the guest list snapshot per event and an
+// outbox of check-ins made while offline.
+
+const DB_NAME = "moto-evento";
+const DB_VERSION = 1;
+const GUESTS_STORE = "guests";
+const OUTBOX_STORE = "outbox";
+
+export interface OutboxOperation {
+  id?: number;
+  eventId: string;
+  guestId: string;
+  confirmed: boolean;
+  confirmedAt: string | null;
+  confirmedBy: string | null;
+  device: string;
+  createdAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(GUESTS_STORE)) {
+          db.createObjectStore(GUESTS_STORE);
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          const outbox = db.createObjectStore(OUTBOX_STORE, {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+          outbox.createIndex("eventId", "eventId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const cacheGuests = (eventId: string, guests: Guest[]) =>
+  runRequest<IDBValidKey>(GUESTS_STORE, "readwrite", (store) =>
+    store.put(guests, eventId)
+  );
+
+export const getCachedGuests = async (eventId: string) =>
+  (await runRequest<Guest[] | undefined>(GUESTS_STORE, "readonly", (store) =>
+    store.get(eventId)
+  )) ?? [];
+
+export const enqueueOperation = (operation: OutboxOperation) =>
+  runRequest<IDBValidKey>(OUTBOX_STORE, "readwrite", (store) =>
+    store.add(operation)
+  );
+
+// Oldest first, so replays keep the order the volunteer clicked in
+export const getPendingOperations = (eventId: string) =>
+  runRequest<OutboxOperation[]>(OUTBOX_STORE, "readonly", (store) =>
+    store.index("eventId").getAll(eventId)
+  );
+
+export const removeOperation = (id: number) =>
+  runRequest<undefined>(OUTBOX_STORE, "readwrite", (store) => store.delete(id));
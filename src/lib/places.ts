@@ -0,0 +1,316 @@
+import { PROVINCE_CENTRES } from "@/lib/argentinaGeo";
+import {
+  LOCALITIES,
+  PROVINCES,
+  type Locality,
+  type Province,
+} from "@/lib/argentinaPlaces";
+import { normalizeText } from "@/lib/columnMapping";
+import { getGuestField } from "@/lib/guestFields";
+import { asGuestData, getGuestName, type Guest } from "@/lib/guests";
+
+// What an admin decided for a reviewed answer
+export interface PlaceChoice {
+  province: string | null;
+  city: string | null;
+}
+
+// Reviewed answers, keyed by placeKey(city, province)
+export type PlaceOverrides = Record<string, PlaceChoice>;
+
+/**
+ * "exact": every answer matched a name or alias; "fuzzy": matched by
+ * spelling, or a town missing from the list, waiting for review;
+ * "reviewed": decided by an admin; "none": no province could be told.
+ */
+export type PlaceMatch = "exact" | "fuzzy" | "reviewed" | "none";
+
+export interface Place extends PlaceChoice {
+  // The locality's coordinates, or the province's centre when the town
+  // isn't on the list
+  lat: number | null;
+  lng: number | null;
+  precision: "city" | "province" | null;
+  match: PlaceMatch;
+}
+
+// Below this, a spelling is too far off to suggest
+const FUZZY_THRESHOLD = 0.75;
+// Shorter answers ("Cba", "BA") only match exactly
+const FUZZY_MIN_LENGTH = 5;
+
+export const placeKey = (city: string, province: string) =>
+  `${normalizeText(city)}|${normalizeText(province)}`;
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for the same text, down to 0 for nothing in common
+const similarity = (text: string, names: string[]) =>
+  Math.max(
+    0,
+    ...names.map((name) => {
+      if (text === name) return 1;
+      if (text.length < FUZZY_MIN_LENGTH) return 0;
+      return 1 - levenshtein(text, name) / Math.max(text.length, name.length);
+    })
+  );
+
+interface Scored<T> {
+  item: T;
+  score: number;
+}
+
+const bestMatch = <T>(
+  text: string,
+  items: T[],
+  names: (item: T) => string[]
+): Scored<T> | null => {
+  const normalized = normalizeText(text);
+  if (!normalized) return null;
+  let best: Scored<T> | null = null;
+  for (const item of items) {
+    const score = similarity(normalized, names(item).map(normalizeText));
+    if (score >= FUZZY_THRESHOLD && (!best || score > best.score)) {
+      best = { item, score };
+    }
+  }
+  return best;
+};
+
+// "Ciudad de Salta", "Neuquén capital": the words around the name
+const stripPlaceWords = (text: string) =>
+  normalizeText(text)
+    .replace(/^(ciudad|cdad|localidad|pueblo) de /, "")
+    .replace(/ (capital|ciudad|centro)$/, "");
+
+const provinceNames = (province: Province) => [
+  province.name,
+  ...province.aliases,
+];
+const localityNames = (locality: Locality) => [
+  locality.name,
+  ...(locality.aliases ?? []),
+];
+
+const toPlace = (
+  province: string | null,
+  city: string | null,
+  match: PlaceMatch
+): Place => {
+  const locality = LOCALITIES.find(
+    (l) => l.province === province && l.name === city
+  );
+  if (locality) {
+    const { lat, lng } = locality;
+    return { province, city, lat, lng, precision: "city", match };
+  }
+  const [lng, lat] = (province && PROVINCE_CENTRES.get(province)) || [];
+  return lat !== undefined
+    ? { province, city, lat, lng, precision: "province", match }
+    : { province, city, lat: null, lng: null, precision: null, match };
+};
+
+/**
+ * Matches the free-text city and province against the bundled list, so
+ * "Bs As", "bsas" and "Buenos Aires" are one province. The city may carry
+ * its province too ("Rosario, Santa Fe"). Towns missing from the list
+ * keep their spelling, are placed at their province's centre and wait
+ * for review.
+ */
+export const resolvePlace = (
+  cityText: string,
+  provinceText: string,
+  overrides: PlaceOverrides = {}
+): Place => {
+  const override = overrides[placeKey(cityText, provinceText)];
+  if (override) return toPlace(override.province, override.city, "reviewed");
+
+  const province = bestMatch(provinceText, PROVINCES, provinceNames);
+  const parts = cityText
+    .split(/[,;/()-]/)
+    .map(stripPlaceWords)
+    .filter(Boolean);
+
+  // Prefer towns in the answered province: "Mercedes" is in several
+  const candidates = province
+    ? LOCALITIES.filter((l) => l.province === province.item.name)
+    : LOCALITIES;
+  let locality: Scored<Locality> | null = null;
+  for (const part of parts) {
+    const match = bestMatch(part, candidates, localityNames);
+    if (match && (!locality || match.score > locality.score)) locality = match;
+  }
+
+  // A city answer that names a province, as in "CABA" or "Bs As"
+  const cityProvince =
+    parts
+      .map((part) => bestMatch(part, PROVINCES, provinceNames))
+      .find(Boolean) ?? null;
+
+  const provinceName =
+    province?.item.name ??
+    locality?.item.province ??
+    cityProvince?.item.name ??
+    null;
+  if (!provinceName) {
+    return toPlace(null, cityText.trim() || null, "none");
+  }
+
+  // Every answer given has to match a name or alias: a town missing from
+  // the list waits for review, unless the answer was the province itself
+  const cityMatch =
+    locality ?? (cityProvince?.item.name === provinceName ? cityProvince : null);
+  const isExact =
+    (!normalizeText(provinceText) || province?.score === 1) &&
+    (parts.length === 0 || cityMatch?.score === 1);
+  const city = locality?.item.name ?? (cityText.trim() || null);
+  return toPlace(provinceName, city, isExact ? "exact" : "fuzzy");
+};
+
+export const getGuestPlace = (guest: Guest, overrides?: PlaceOverrides) => {
+  const data = asGuestData(guest.guest_data);
+  return resolvePlace(
+    getGuestField(data, "city"),
+    getGuestField(data, "province"),
+    overrides
+  );
+};
+
+export interface PlaceAnswer {
+  key: string;
+  city: string;
+  province: string;
+  riders: number;
+  place: Place;
+}
+
+/**
+ * Riders' distinct origin answers, most common first, so a review
+ * fixes one spelling for everyone who typed it.
+ */
+export const groupPlaceAnswers = (
+  guests: Guest[],
+  overrides: PlaceOverrides
+): PlaceAnswer[] => {
+  const answers = new Map<string, PlaceAnswer>();
+  guests.forEach((guest) => {
+    if (guest.parent_guest_id) return;
+    const data = asGuestData(guest.guest_data);
+    const city = getGuestField(data, "city");
+    const province = getGuestField(data, "province");
+    const key = placeKey(city, province);
+    if (key === "|") return;
+
+    const answer = answers.get(key);
+    if (answer) {
+      answer.riders++;
+    } else {
+      answers.set(key, {
+        key,
+        city: city.trim(),
+        province: province.trim(),
+        riders: 1,
+        place: resolvePlace(city, province, overrides),
+      });
+    }
+  });
+  return [...answers.values()].sort((a, b) => b.riders - a.riders);
+};
+
+// Matched only by spelling, an unlisted town, or not matched at all
+export const needsReview = (place: Place) =>
+  place.match === "fuzzy" || place.match === "none";
+
+const EARTH_RADIUS_KM = 6371;
+
+export const distanceKm = (
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number }
+) => {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(to.lat - from.lat);
+  const dLng = rad(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(from.lat)) * Math.cos(rad(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+export interface Traveller {
+  guest: Guest;
+  name: string;
+  place: Place;
+  // Straight-line distance to the event, rounded to the km
+  distance: number;
+}
+
+/**
+ * Riders by distance from the event, farthest first. Riders placed only
+ * by province are approximate and flagged by `place.precision`.
+ */
+export const rankTravellers = (
+  guests: Guest[],
+  eventPlace: Place,
+  overrides: PlaceOverrides
+): Traveller[] => {
+  if (eventPlace.lat === null || eventPlace.lng === null) return [];
+  const origin = { lat: eventPlace.lat, lng: eventPlace.lng };
+
+  return guests
+    .flatMap((guest) => {
+      if (guest.parent_guest_id) return [];
+      const place = getGuestPlace(guest, overrides);
+      if (place.lat === null || place.lng === null) return [];
+      return [
+        {
+          guest,
+          name: getGuestName(asGuestData(guest.guest_data), guest.guest_id),
+          place,
+          distance: Math.round(distanceKm(origin, { lat: place.lat, lng: place.lng })),
+        },
+      ];
+    })
+    .sort((a, b) => b.distance - a.distance);
+};
+
+export interface ProvinceCount {
+  province: string;
+  riders: number;
+  lat: number;
+  lng: number;
+}
+
+export const countRidersByProvince = (
+  guests: Guest[],
+  overrides: PlaceOverrides
+): ProvinceCount[] => {
+  const counts = new Map<string, number>();
+  guests.forEach((guest) => {
+    if (guest.parent_guest_id) return;
+    const { province } = getGuestPlace(guest, overrides);
+    if (province) counts.set(province, (counts.get(province) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([province, riders]) => {
+      const [lng, lat] = PROVINCE_CENTRES.get(province)!;
+      return { province, riders, lat, lng };
+    })
+    .sort((a, b) => b.riders - a.riders);
+};
+
+export const formatPlace = (place: Pick<Place, "city" | "province">) =>
+  [place.city, place.province].filter(Boolean).join(", ");
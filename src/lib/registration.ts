@@ -0,0 +1,213 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { normalizeDocument } from "@/lib/dni";
+import {
+  GUEST_FIELDS,
+  getGuestFieldLabel,
+  type GuestFieldKey,
+} from "@/lib/guestFields";
+import type { GuestData } from "@/lib/guests";
+
+export type QuestionType =
+  | "text"
+  | "textarea"
+  | "phone"
+  | "email"
+  | "yesno"
+  | "choice";
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  text: "Texto corto",
+  textarea: "Texto largo",
+  phone: "Teléfono",
+  email: "Email",
+  yesno: "Sí / No",
+  choice: "Opciones",
+};
+
+const questionSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  type: z.enum(["text", "textarea", "phone", "email", "yesno", "choice"]),
+  required: z.boolean(),
+  // Canonical guest field the answer feeds; its column name is used
+  field: z
+    .custom<GuestFieldKey>(
+      (value) => GUEST_FIELDS.some((field) => field.key === value)
+    )
+    .optional(),
+  options: z.array(z.string()).optional(),
+  help: z.string().optional(),
+  // Only asked when another question was answered with this value
+  showIf: z.object({ questionId: z.string(), equals: z.string() }).optional(),
+});
+
+export type RegistrationQuestion = z.infer<typeof questionSchema>;
+
+export type RegistrationAnswers = Record<string, string>;
+
+export const YES = "Sí";
+export const NO = "No";
+
+const question = (
+  id: string,
+  label: string,
+  type: QuestionType,
+  extra: Partial<RegistrationQuestion> = {}
+): RegistrationQuestion => ({ id, label, type, required: false, ...extra });
+
+// The questions of the original Google Form, stored under the same columns
+export const DEFAULT_QUESTIONS: RegistrationQuestion[] = [
+  question("fullName", "Apellido y nombre", "text", { field: "fullName", required: true }),
+  question("document", "DNI", "text", { field: "document", required: true }),
+  question("phone", "Teléfono", "phone", { field: "phone", required: true }),
+  question("email", "Email", "email", {
+    help: "Te enviamos la confirmación a esta dirección.",
+  }),
+  question("city", "Ciudad de donde nos visitás", "text", { field: "city" }),
+  question("province", "Provincia", "text", { field: "province" }),
+  question("bloodType", "Grupo sanguíneo", "choice", {
+    field: "bloodType",
+    options: ["0+", "0-", "A+", "A-", "B+", "B-", "AB+", "AB-"],
+  }),
+  question("emergencyContact", "Contacto de emergencia", "text", {
+    field: "emergencyContact",
+    required: true,
+    help: "Nombre y teléfono.",
+  }),
+  question("motorcycle", "Moto en la que venís", "text", { field: "motorcycle" }),
+  question("license", "¿Tenés carnet vigente?", "yesno", { field: "license", required: true }),
+  question("insurance", "¿Tenés seguro vigente?", "yesno", { field: "insurance", required: true }),
+  question("hasCompanion", "¿Venís acompañado?", "yesno", { field: "hasCompanion", required: true }),
+  question("companionName", "Apellido y nombre del acompañante", "text", {
+    field: "companionName",
+    required: true,
+    showIf: { questionId: "hasCompanion", equals: YES },
+  }),
+  question("companionDocument", "DNI del acompañante", "text", {
+    field: "companionDocument",
+    showIf: { questionId: "hasCompanion", equals: YES },
+  }),
+  question("dinner", "¿Venís a la cena show?", "yesno", { field: "dinner" }),
+  question("dietaryRestriction", "¿Tenés alguna restricción alimentaria?", "text", {
+    field: "dietaryRestriction",
+  }),
+  question("isAllergic", "¿Sos alérgico a algo?", "yesno", { field: "isAllergic", required: true }),
+  question("allergies", "¿A qué sos alérgico?", "text", {
+    field: "allergies",
+    required: true,
+    showIf: { questionId: "isAllergic", equals: YES },
+  }),
+  question("rides", "¿Vas a hacer las rodadas?", "yesno", { field: "rides" }),
+];
+
+// The DNI keys the registration, so the form can't work without it
+export const isLockedQuestion = (q: RegistrationQuestion) => q.field === "document";
+
+export const parseQuestions = (value: Json): RegistrationQuestion[] => {
+  const parsed = z.array(questionSchema).safeParse(value);
+  if (!parsed.success || parsed.data.length === 0) return DEFAULT_QUESTIONS;
+  if (parsed.data.some(isLockedQuestion)) return parsed.data;
+  return [DEFAULT_QUESTIONS.find(isLockedQuestion)!, ...parsed.data];
+};
+
+// Column inside guest_data where the answer is stored
+export const questionColumn = (q: RegistrationQuestion) =>
+  q.field ? getGuestFieldLabel(q.field) : q.label;
+
+export const isQuestionVisible = (
+  q: RegistrationQuestion,
+  answers: RegistrationAnswers
+) => !q.showIf || answers[q.showIf.questionId] === q.showIf.equals;
+
+const validateAnswer = (q: RegistrationQuestion, value: string) => {
+  if (!value) return q.required ? "Este dato es obligatorio" : null;
+  if (q.field === "document" || q.field === "companionDocument") {
+    return /^\d{6,9}$/.test(normalizeDocument(value)) ? null : "Ingresá un DNI válido";
+  }
+  if (q.type === "email") {
+    return z.string().email().safeParse(value).success ? null : "Ingresá un email válido";
+  }
+  if (q.type === "phone") {
+    return normalizeDocument(value).length >= 8 ? null : "Ingresá un teléfono válido";
+  }
+  if (q.type === "choice" && q.options && !q.options.includes(value)) {
+    return "Elegí una de las opciones";
+  }
+  return null;
+};
+
+// Hidden questions are neither validated nor stored
+export const buildRegistrationSchema = (questions: RegistrationQuestion[]) =>
+  z.record(z.string()).superRefine((answers, ctx) => {
+    questions.forEach((q) => {
+      if (!isQuestionVisible(q, answers)) return;
+      const message = validateAnswer(q, (answers[q.id] ?? "").trim());
+      if (message) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [q.id], message });
+      }
+    });
+  });
+
+export const toRegistrationData = (
+  questions: RegistrationQuestion[],
+  answers: RegistrationAnswers
+): GuestData =>
+  Object.fromEntries(
+    questions
+      .filter((q) => isQuestionVisible(q, answers))
+      .map((q) => [questionColumn(q), (answers[q.id] ?? "").trim()])
+  );
+
+export type RegistrationForm = Awaited<
+  ReturnType<typeof fetchRegistrationForm>
+>;
+
+export const fetchRegistrationForm = async (eventId: string) => {
+  const { data, error } = await supabase.rpc("get_registration_form", {
+    _event_id: eventId,
+  });
+  if (error) throw error;
+  const event = data?.[0];
+  return event
+    ? { ...event, questions: parseQuestions(event.registration_questions) }
+    : null;
+};
+
+const REGISTRATION_ERRORS: Record<string, string> = {
+  registration_closed: "La inscripción para este evento está cerrada.",
+  already_registered: "Ya hay una inscripción con ese DNI.",
+  invalid_document: "El DNI ingresado no es válido.",
+  invalid_registration: "No se pudo procesar la inscripción.",
+};
+
+export const submitRegistration = async (eventId: string, data: GuestData) => {
+  const { data: rows, error } = await supabase.rpc("register_guest", {
+    _event_id: eventId,
+    _guest_data: data as Json,
+  });
+  if (error) {
+    throw new Error(REGISTRATION_ERRORS[error.message] ?? error.message);
+  }
+  return rows[0];
+};
+
+export const buildReceiptText = (
+  eventName: string,
+  questions: RegistrationQuestion[],
+  answers: RegistrationAnswers
+) => {
+  const lines = questions
+    .filter((q) => isQuestionVisible(q, answers) && answers[q.id]?.trim())
+    .map((q) => `• ${q.label}: ${answers[q.id].trim()}`);
+  return [`Inscripción confirmada: ${eventName}`, "", ...lines].join("\n");
+};
+
+export const whatsappLink = (text: string) =>
+  `https://wa.me/?text=${encodeURIComponent(text)}`;
+
+export const mailtoLink = (email: string, subject: string, text: string) =>
+  `mailto:${email}?subject=${encodeURIComponent(
+    subject
+  )}&body=${encodeURIComponent(text)}`;
@@ -0,0 +1,149 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { indexCompanions } from "@/lib/companions";
+import { getGuestField, getGuestFlag } from "@/lib/guestFields";
+import { asGuestData, getGuestName, type Guest } from "@/lib/guests";
+
+export type Ride = Tables<"rides">;
+export type RideRider = Tables<"ride_riders">;
+
+export const DEFAULT_GROUP_SIZE = 10;
+
+// Riders (not companions) who answered "Sí" to the rides question
+export const getInterestedRiders = (guests: Guest[]) =>
+  guests.filter(
+    (guest) =>
+      !guest.parent_guest_id &&
+      getGuestFlag(asGuestData(guest.guest_data), "rides")
+  );
+
+export interface RidePopulation {
+  toAdd: Guest[];
+  // Interested riders left out because the ride is full
+  overflow: number;
+}
+
+/**
+ * Interested riders not yet on the ride, capped at the free places so a
+ * full ride is never overbooked.
+ */
+export const planRidePopulation = (
+  ride: Pick<Ride, "capacity">,
+  roster: Pick<RideRider, "guest_id">[],
+  guests: Guest[]
+): RidePopulation => {
+  const onRide = new Set(roster.map((rider) => rider.guest_id));
+  const candidates = getInterestedRiders(guests).filter(
+    (guest) => !onRide.has(guest.id)
+  );
+  const free =
+    ride.capacity === null
+      ? candidates.length
+      : Math.max(ride.capacity - roster.length, 0);
+  return {
+    toAdd: candidates.slice(0, free),
+    overflow: Math.max(candidates.length - free, 0),
+  };
+};
+
+export interface RosterEntry {
+  rider: RideRider;
+  guest: Guest;
+  name: string;
+  document: string;
+  phone: string;
+  motorcycle: string;
+  emergencyContact: string;
+  companionName?: string;
+}
+
+// Roster rows sorted by group, then name; unassigned riders go last
+export const buildRoster = (riders: RideRider[], guests: Guest[]): RosterEntry[] => {
+  const byId = new Map(guests.map((guest) => [guest.id, guest]));
+  const companions = indexCompanions(guests);
+
+  return riders
+    .flatMap((rider) => {
+      const guest = byId.get(rider.guest_id);
+      if (!guest) return [];
+      const data = asGuestData(guest.guest_data);
+      const companion = companions.get(guest.id);
+      return [
+        {
+          rider,
+          guest,
+          name: getGuestName(data, guest.guest_id),
+          document: getGuestField(data, "document"),
+          phone: getGuestField(data, "phone"),
+          motorcycle: getGuestField(data, "motorcycle"),
+          emergencyContact: getGuestField(data, "emergencyContact"),
+          companionName: companion
+            ? getGuestName(asGuestData(companion.guest_data), companion.guest_id)
+            : undefined,
+        },
+      ];
+    })
+    .sort(
+      (a, b) =>
+        (a.rider.group_number ?? Infinity) - (b.rider.group_number ?? Infinity) ||
+        a.name.localeCompare(b.name)
+    );
+};
+
+export interface RosterGroup {
+  // null for riders not assigned yet
+  number: number | null;
+  entries: RosterEntry[];
+}
+
+export const groupRoster = (roster: RosterEntry[]): RosterGroup[] => {
+  const groups: RosterGroup[] = [];
+  roster.forEach((entry) => {
+    const number = entry.rider.group_number;
+    const last = groups[groups.length - 1];
+    if (last && last.number === number) {
+      last.entries.push(entry);
+    } else {
+      groups.push({ number, entries: [entry] });
+    }
+  });
+  return groups;
+};
+
+/**
+ * Splits the whole roster into groups of `groupSize` in name order,
+ * returning only the riders whose group changes.
+ */
+export const assignGroups = (roster: RosterEntry[], groupSize: number) =>
+  [...roster]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((entry, index) => ({
+      rider: entry.rider,
+      group_number: Math.floor(index / groupSize) + 1,
+    }))
+    .filter(({ rider, group_number }) => rider.group_number !== group_number);
+
+export const getGroupLabel = (number: number | null) =>
+  number === null ? "Sin grupo" : `Grupo ${number}`;
+
+export const formatDeparture = (departsAt: string | null) =>
+  departsAt
+    ? new Date(departsAt).toLocaleString("es-AR", {
+        weekday: "short",
+        day: "numeric",
+        month: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "Horario a definir";
+
+// <input type="datetime-local"> works in local time without a zone
+export const toDateTimeLocal = (iso: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+export const fromDateTimeLocal = (value: string) =>
+  value ? new Date(value).toISOString() : null;
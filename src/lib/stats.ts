@@ -0,0 +1,178 @@
+import { buildCateringReport } from "@/lib/catering";
+import { normalizeText } from "@/lib/columnMapping";
+import { getAttendanceStats, indexCompanions } from "@/lib/companions";
+import { getGuestField } from "@/lib/guestFields";
+import { asGuestData, type Guest } from "@/lib/guests";
+import type { MotorcycleModel } from "@/lib/motorcycleCatalogue";
+import { buildMotorcycleReport } from "@/lib/motorcycles";
+import { getGuestPlace, type PlaceOverrides } from "@/lib/places";
+
+export interface CountEntry {
+  label: string;
+  count: number;
+}
+
+export const NO_DATA_LABEL = "Sin dato";
+export const OTHERS_LABEL = "Otros";
+
+const HOUR_MS = 60 * 60_000;
+
+/**
+ * Tallies free-text answers, so "Córdoba" and "cordoba " count together
+ * under the first spelling seen.
+ */
+export const countValues = (values: string[], limit = 10): CountEntry[] => {
+  const counts = new Map<string, CountEntry>();
+  values.forEach((value) => {
+    const key = normalizeText(value);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(key, { label: key ? value.trim() : NO_DATA_LABEL, count: 1 });
+    }
+  });
+
+  return topCounts([...counts.values()], limit);
+};
+
+// Largest first; past `limit`, the rest go into "Otros"
+export const topCounts = (entries: CountEntry[], limit = 10): CountEntry[] => {
+  const sorted = [...entries].sort((a, b) => b.count - a.count);
+  if (sorted.length <= limit) return sorted;
+  const others = sorted
+    .slice(limit - 1)
+    .reduce((total, entry) => total + entry.count, 0);
+  return [...sorted.slice(0, limit - 1), { label: OTHERS_LABEL, count: others }];
+};
+
+const BLOOD_TYPES = ["O+", "O-", "A+", "A-", "B+", "B-", "AB+", "AB-"];
+
+// "0 rh positivo", "o+" and "O POS" are all "O+"
+export const normalizeBloodType = (value: string) => {
+  const compact = normalizeText(value)
+    .toUpperCase()
+    .replace(/\bRH\b/g, "")
+    .replace(/\b(POSITIVO|POS)\b/g, "+")
+    .replace(/\b(NEGATIVO|NEG)\b/g, "-")
+    .replace(/\s+/g, "")
+    .replace(/^0/, "O");
+  const sign = /[+-]$/.test(value.trim()) ? value.trim().slice(-1) : "";
+  const type = compact.endsWith("+") || compact.endsWith("-") ? compact : compact + sign;
+  return BLOOD_TYPES.includes(type) ? type : value.trim() ? "Otro" : NO_DATA_LABEL;
+};
+
+// Every blood type in the usual order, zeros included
+export const countBloodTypes = (guests: Guest[]): CountEntry[] => {
+  const counts = new Map<string, number>();
+  guests.forEach((guest) => {
+    const type = normalizeBloodType(
+      getGuestField(asGuestData(guest.guest_data), "bloodType")
+    );
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  });
+  return [...BLOOD_TYPES, "Otro", NO_DATA_LABEL]
+    .map((label) => ({ label, count: counts.get(label) ?? 0 }))
+    .filter((entry) => entry.count > 0 || BLOOD_TYPES.includes(entry.label));
+};
+
+export interface HourlyArrivals {
+  // Start of the hour, in ms
+  hour: number;
+  arrivals: number;
+  // Check-ins up to the end of this hour
+  total: number;
+}
+
+/**
+ * Check-ins per hour from the first arrival to the last, with empty
+ * hours kept so the timeline has no gaps.
+ */
+export const getHourlyArrivals = (guests: Guest[]): HourlyArrivals[] => {
+  const times = guests
+    .filter((guest) => guest.confirmed && guest.confirmed_at)
+    .map((guest) => new Date(guest.confirmed_at!).getTime())
+    .sort((a, b) => a - b);
+  if (times.length === 0) return [];
+
+  const startOfHour = (time: number) => {
+    const date = new Date(time);
+    date.setMinutes(0, 0, 0);
+    return date.getTime();
+  };
+  const first = startOfHour(times[0]);
+  const last = startOfHour(times[times.length - 1]);
+  const buckets: HourlyArrivals[] = [];
+  let index = 0;
+  let total = 0;
+
+  for (let hour = first; hour <= last; hour += HOUR_MS) {
+    let arrivals = 0;
+    while (index < times.length && times[index] < hour + HOUR_MS) {
+      arrivals++;
+      index++;
+    }
+    total += arrivals;
+    buckets.push({ hour, arrivals, total });
+  }
+  return buckets;
+};
+
+export const formatHour = (hour: number) =>
+  new Date(hour).toLocaleString("es-AR", {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export interface DashboardStats {
+  total: number;
+  confirmed: number;
+  riders: number;
+  companions: number;
+  // Riders who come with a companion vs alone
+  withCompanion: number;
+  alone: number;
+  diners: number;
+  hourly: HourlyArrivals[];
+  provinces: CountEntry[];
+  cities: CountEntry[];
+  // Riders per make, from the normalized bikes
+  makes: CountEntry[];
+  bloodTypes: CountEntry[];
+}
+
+export const buildDashboardStats = (
+  guests: Guest[],
+  catalogue: MotorcycleModel[],
+  placeOverrides: PlaceOverrides
+): DashboardStats => {
+  const attendance = getAttendanceStats(guests);
+  const companions = indexCompanions(guests);
+  const riders = guests.filter((guest) => !guest.parent_guest_id);
+  const places = riders.map((rider) => getGuestPlace(rider, placeOverrides));
+  const withCompanion = riders.filter((rider) => companions.has(rider.id)).length;
+
+  return {
+    total: guests.length,
+    confirmed: attendance.riders.confirmed + attendance.companions.confirmed,
+    riders: attendance.riders.total,
+    companions: attendance.companions.total,
+    withCompanion,
+    alone: riders.length - withCompanion,
+    diners: buildCateringReport(guests).diners.length,
+    hourly: getHourlyArrivals(guests),
+    // Where riders come from and what they ride; companions share both
+    provinces: countValues(places.map((place) => place.province ?? "")),
+    cities: countValues(places.map((place) => place.city ?? "")),
+    makes: topCounts(
+      buildMotorcycleReport(riders, catalogue).ranking.map((entry) => ({
+        label: entry.make,
+        count: entry.riders,
+      }))
+    ),
+    // The form asks the rider's blood type only; companions would all
+    // land in "Sin dato"
+    bloodTypes: countBloodTypes(riders),
+  };
+};
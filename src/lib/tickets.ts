@@ -0,0 +1,212 @@
+import QRCode from "qrcode";
+import { jsPDF } from "jspdf";
+import { supabase } from "@/integrations/supabase/client";
+import type { MotoEvent } from "@/hooks/use-events";
+import { downloadUrl, slugify } from "@/lib/download";
+import { getGuestField } from "@/lib/guestFields";
+import { asGuestData, getGuestName, type Guest } from "@/lib/guests";
+
+// Versioned so the scanner can tell our codes from any other QR
+const TICKET_PREFIX = "ME1:";
+const DEFAULT_COLOR = "#f97316";
+
+// Only the branding is needed, so the public receipt can render tickets too
+type TicketEvent = Pick<MotoEvent, "name" | "primary_color">;
+
+export type TicketGuest = Pick<
+  Guest,
+  "id" | "event_id" | "guest_id" | "guest_data" | "qr_token"
+>;
+
+export const buildTicketPayload = (guest: Pick<Guest, "qr_token">) =>
+  `${TICKET_PREFIX}${guest.qr_token}`;
+
+// Returns the token of one of our tickets, or null for any other code
+export const parseTicketPayload = (text: string) => {
+  const value = text.trim();
+  if (!value.startsWith(TICKET_PREFIX)) return null;
+  const token = value.slice(TICKET_PREFIX.length);
+  return /^[0-9a-f]{32}$/i.test(token) ? token.toLowerCase() : null;
+};
+
+export const renderTicketQr = (guest: Pick<Guest, "qr_token">, width = 320) =>
+  QRCode.toDataURL(buildTicketPayload(guest), {
+    width,
+    margin: 1,
+    errorCorrectionLevel: "M",
+  });
+
+const describeGuest = (guest: TicketGuest) => {
+  const data = asGuestData(guest.guest_data);
+  return {
+    name: getGuestName(data, guest.guest_id),
+    document: getGuestField(data, "document"),
+  };
+};
+
+// Fits text to the canvas width by shrinking the font
+const fillFittedText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  y: number,
+  size: number,
+  maxWidth: number,
+  weight = "bold"
+) => {
+  let fontSize = size;
+  do {
+    ctx.font = `${weight} ${fontSize}px sans-serif`;
+    fontSize -= 2;
+  } while (ctx.measureText(text).width > maxWidth && fontSize > 12);
+  ctx.fillText(text, ctx.canvas.width / 2, y);
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+
+export const downloadTicketPng = async (
+  guest: TicketGuest,
+  event: TicketEvent | undefined
+) => {
+  const { name, document } = describeGuest(guest);
+  const canvas = window.document.createElement("canvas");
+  canvas.width = 600;
+  canvas.height = 820;
+  const ctx = canvas.getContext("2d")!;
+  ctx.textAlign = "center";
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = event?.primary_color || DEFAULT_COLOR;
+  ctx.fillRect(0, 0, canvas.width, 100);
+  ctx.fillStyle = "#ffffff";
+  fillFittedText(ctx, event?.name ?? "Entrada", 64, 36, 540);
+
+  const qr = await loadImage(await renderTicketQr(guest, 460));
+  ctx.drawImage(qr, 70, 130, 460, 460);
+
+  ctx.fillStyle = "#111111";
+  fillFittedText(ctx, name, 650, 34, 540);
+  if (document) {
+    ctx.fillStyle = "#555555";
+    fillFittedText(ctx, `DNI ${document}`, 695, 24, 540, "normal");
+  }
+  ctx.fillStyle = "#888888";
+  fillFittedText(ctx, "Presentá este código en el ingreso", 775, 20, 540, "normal");
+
+  downloadUrl(
+    canvas.toDataURL("image/png"),
+    `entrada-${slugify(name, "entrada")}.png`
+  );
+};
+
+// A4 sheet with six tickets, laid out to be cut along the borders
+const TICKETS_PER_ROW = 2;
+const TICKETS_PER_PAGE = 6;
+const TICKET_WIDTH = 95;
+const TICKET_HEIGHT = 92;
+const MARGIN = 10;
+
+const drawPdfTicket = async (
+  pdf: jsPDF,
+  guest: TicketGuest,
+  event: TicketEvent | undefined,
+  x: number,
+  y: number
+) => {
+  const { name, document } = describeGuest(guest);
+  const centerX = x + TICKET_WIDTH / 2;
+
+  pdf.setDrawColor(200);
+  pdf.roundedRect(x, y, TICKET_WIDTH, TICKET_HEIGHT, 3, 3);
+  pdf.setFillColor(event?.primary_color || DEFAULT_COLOR);
+  pdf.rect(x, y, TICKET_WIDTH, 10, "F");
+
+  pdf.setTextColor(255);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(11);
+  pdf.text(event?.name ?? "Entrada", centerX, y + 6.5, {
+    align: "center",
+    maxWidth: TICKET_WIDTH - 6,
+  });
+
+  pdf.addImage(await renderTicketQr(guest, 400), "PNG", centerX - 27, y + 13, 54, 54);
+
+  pdf.setTextColor(20);
+  pdf.setFontSize(11);
+  pdf.text(pdf.splitTextToSize(name, TICKET_WIDTH - 8)[0], centerX, y + 74, {
+    align: "center",
+  });
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  if (document) {
+    pdf.setTextColor(90);
+    pdf.text(`DNI ${document}`, centerX, y + 80, { align: "center" });
+  }
+  pdf.setTextColor(140);
+  pdf.setFontSize(8);
+  pdf.text("Presentá este código en el ingreso", centerX, y + 87, {
+    align: "center",
+  });
+};
+
+export const downloadTicketsPdf = async (
+  guests: TicketGuest[],
+  event: TicketEvent | undefined,
+  fileName?: string
+) => {
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+
+  for (const [index, guest] of guests.entries()) {
+    const slot = index % TICKETS_PER_PAGE;
+    if (index > 0 && slot === 0) pdf.addPage();
+    const x = MARGIN + (slot % TICKETS_PER_ROW) * TICKET_WIDTH;
+    const y = MARGIN + Math.floor(slot / TICKETS_PER_ROW) * TICKET_HEIGHT;
+    await drawPdfTicket(pdf, guest, event, x, y);
+  }
+
+  pdf.save(fileName ?? `entradas-${slugify(event?.name ?? "evento", "entrada")}.pdf`);
+};
+
+export const downloadTicketPdf = (
+  guest: TicketGuest,
+  event: TicketEvent | undefined
+) =>
+  downloadTicketsPdf(
+    [guest],
+    event,
+    `entrada-${slugify(describeGuest(guest).name, "entrada")}.pdf`
+  );
+
+// Invalidates a leaked or forwarded ticket by issuing a new token
+export const regenerateTicketToken = async (guestRowId: string) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const qrToken = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+  const { data, error } = await supabase
+    .from("guests")
+    .update({ qr_token: qrToken })
+    .eq("id", guestRowId)
+    .select("id, event_id, guest_id, guest_data, qr_token")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Server lookup for codes not in the station's list, e.g. another event's
+export const findGuestByToken = async (qrToken: string) => {
+  const { data, error } = await supabase
+    .from("guests")
+    .select("*")
+    .eq("qr_token", qrToken)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
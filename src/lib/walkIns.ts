@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeDocument } from "@/lib/dni";
+import { GUEST_FIELDS, type GuestFieldKey } from "@/lib/guestFields";
+import { DEFAULT_IDENTITY_COLUMNS, buildGuestId } from "@/lib/guestIdentity";
+import type { GuestData } from "@/lib/guests";
+import type { MotorcycleModel } from "@/lib/motorcycleCatalogue";
+import { normalizeRowMotorcycle } from "@/lib/motorcycles";
+
+const optionalText = z.string().trim().max(200);
+
+// One entry per guest field, so the form covers the same columns as an import
+export const walkInSchema = z
+  .object({
+    fullName: z.string().trim().min(3, "Ingresá apellido y nombre"),
+    document: z
+      .string()
+      .trim()
+      .refine(
+        (value) => /^\d{6,9}$/.test(normalizeDocument(value)),
+        "Ingresá un DNI válido"
+      ),
+    bloodType: optionalText,
+    phone: optionalText,
+    hasCompanion: z.boolean(),
+    companionName: optionalText,
+    companionDocument: optionalText,
+    emergencyContact: optionalText,
+    license: z.boolean(),
+    insurance: z.boolean(),
+    dinner: z.boolean(),
+    dietaryRestriction: optionalText,
+    motorcycle: optionalText,
+    city: optionalText,
+    province: optionalText,
+    isAllergic: z.boolean(),
+    allergies: optionalText,
+    rides: z.boolean(),
+  } satisfies Record<GuestFieldKey, z.ZodTypeAny>)
+  .superRefine((values, ctx) => {
+    if (values.hasCompanion && !values.companionName) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["companionName"],
+        message: "Ingresá el nombre del acompañante",
+      });
+    }
+    if (values.isAllergic && !values.allergies) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["allergies"],
+        message: "Indicá a qué es alérgico",
+      });
+    }
+  });
+
+export type WalkInValues = z.infer<typeof walkInSchema>;
+
+export const EMPTY_WALK_IN: WalkInValues = {
+  fullName: "",
+  document: "",
+  bloodType: "",
+  phone: "",
+  hasCompanion: false,
+  companionName: "",
+  companionDocument: "",
+  emergencyContact: "",
+  license: true,
+  insurance: true,
+  dinner: false,
+  dietaryRestriction: "",
+  motorcycle: "",
+  city: "",
+  province: "",
+  isAllergic: false,
+  allergies: "",
+  rides: false,
+};
+
+// Stored with the same labels and "Sí"/"No" answers as the Google Form
+export const toGuestData = (values: WalkInValues): GuestData =>
+  Object.fromEntries(
+    GUEST_FIELDS.map(({ key, label }) => {
+      const value = values[key];
+      return [label, typeof value === "boolean" ? (value ? "Sí" : "No") : value];
+    })
+  );
+
+interface RegisterOptions {
+  checkIn: boolean;
+  userId: string | null;
+  device: string;
+  catalogue: MotorcycleModel[];
+  // The event's identity columns; null until an admin picks them
+  identityColumns: string[] | null;
+}
+
+/**
+ * Inserts a rider who wasn't on the imported list. The guest ID follows the
+ * event's identity columns so a later import of the same rider updates
+ * this row instead of duplicating it.
+ */
+export const registerWalkIn = async (
+  eventId: string,
+  values: WalkInValues,
+  { checkIn, userId, device, catalogue, identityColumns }: RegisterOptions
+) => {
+  // Digits only, as the spreadsheets have them, so identities line up
+  const guestData = toGuestData({
+    ...values,
+    document: normalizeDocument(values.document),
+    companionDocument: normalizeDocument(values.companionDocument),
+  });
+  // Columns the form doesn't ask for leave the ID empty: key on the DNI
+  const guestId =
+    buildGuestId(guestData, identityColumns ?? DEFAULT_IDENTITY_COLUMNS) ||
+    buildGuestId(guestData, DEFAULT_IDENTITY_COLUMNS);
+
+  const { data, error } = await supabase
+    .from("guests")
+    .insert({
+      event_id: eventId,
+      guest_id: guestId,
+      guest_data: guestData,
+      motorcycle: normalizeRowMotorcycle(guestData, catalogue),
+      origin: "walk-in",
+      ...(checkIn && {
+        confirmed: true,
+        confirmed_at: new Date().toISOString(),
+        confirmed_by: userId,
+        confirmed_device: device,
+      }),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error("Ya hay un invitado registrado con ese DNI.");
+    }
+    throw error;
+  }
+  return data;
+};
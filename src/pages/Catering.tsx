@@ -0,0 +1,186 @@
+import React, { useMemo } from "react";
+import { useParams } from "react-router-dom";
+import { FileSpreadsheet, Printer, UtensilsCrossed, Users } from "lucide-react";
+import { PageHeader } from "@/components/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useEvent } from "@/hooks/use-events";
+import { useGuests } from "@/hooks/use-guests";
+import {
+  buildCateringReport,
+  getDietLabel,
+  toCateringRows,
+} from "@/lib/catering";
+import { downloadCsv, slugify } from "@/lib/download";
+
+interface SummaryCardProps {
+  label: string;
+  value: number;
+  detail?: string;
+}
+
+const SummaryCard: React.FC<SummaryCardProps> = ({ label, value, detail }) => (
+  <Card className="card-moto">
+    <p className="text-sm text-muted-foreground">{label}</p>
+    <p className="text-3xl font-bold text-primary">{value}</p>
+    {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+  </Card>
+);
+
+const Catering = () => {
+  const { eventId } = useParams();
+  const { event } = useEvent(eventId);
+  const { guests, isLoading } = useGuests(eventId!);
+  const report = useMemo(() => buildCateringReport(guests), [guests]);
+  const restrictedCount = report.diners.filter((d) => d.diets.length > 0).length;
+  const arrivedCount = report.diners.filter((d) => d.guest.confirmed).length;
+
+  const handleExport = () =>
+    downloadCsv(
+      toCateringRows(report.diners),
+      `cena-${slugify(event?.name ?? "evento")}.csv`
+    );
+
+  if (!eventId) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader eventId={eventId} title="Cena show y catering">
+        <Button
+          variant="outline"
+          onClick={handleExport}
+          disabled={report.diners.length === 0}
+        >
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          CSV
+        </Button>
+        <Button onClick={() => window.print()} disabled={report.diners.length === 0}>
+          <Printer className="h-4 w-4 mr-2" />
+          Imprimir
+        </Button>
+      </PageHeader>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <div className="hidden print:block">
+          <h1 className="text-2xl font-bold">Cena show: {event?.name}</h1>
+          <p className="text-sm">
+            Generado el {new Date().toLocaleString("es-AR")}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground animate-pulse">
+            Cargando invitados...
+          </p>
+        ) : report.diners.length === 0 ? (
+          <Card className="card-moto p-6 text-center text-muted-foreground">
+            Nadie se anotó a la cena show todavía.
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <SummaryCard
+                label="Cubiertos"
+                value={report.diners.length}
+                detail={`${arrivedCount} ya ingresaron al evento`}
+              />
+              <SummaryCard label="Pilotos" value={report.riders} />
+              <SummaryCard label="Acompañantes" value={report.companions} />
+              <SummaryCard
+                label="Con restricción"
+                value={restrictedCount}
+                detail={`${report.diners.length - restrictedCount} menú general`}
+              />
+            </div>
+
+            {report.byDiet.length > 0 && (
+              <Card className="card-moto space-y-4">
+                <h2 className="flex items-center gap-2 text-lg font-semibold">
+                  <UtensilsCrossed className="h-5 w-5 text-primary" />
+                  Restricciones alimentarias
+                </h2>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {report.byDiet.map(({ diet, diners }) => (
+                    <div key={diet.key} className="space-y-1">
+                      <p className="font-semibold">
+                        {diet.label}{" "}
+                        <span className="text-primary">({diners.length})</span>
+                      </p>
+                      <ul className="text-sm text-muted-foreground">
+                        {diners.map((diner) => (
+                          <li key={diner.guest.id}>
+                            {diner.name}
+                            {diet.key === "other" && `: ${diner.restriction}`}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+
+            <Card className="card-moto space-y-4">
+              <h2 className="flex items-center gap-2 text-lg font-semibold">
+                <Users className="h-5 w-5 text-primary" />
+                Lista para la cocina
+              </h2>
+              <p className="text-xs text-muted-foreground">
+                El formulario pregunta solo al piloto: su acompañante se cuenta
+                con él y sin restricción declarada.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">N°</TableHead>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Restricción</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.diners.map((diner, index) => (
+                    <TableRow key={diner.guest.id}>
+                      <TableCell>{index + 1}</TableCell>
+                      <TableCell className="font-medium">{diner.name}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {diner.riderName
+                          ? `Acompañante de ${diner.riderName}`
+                          : "Piloto"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap items-center gap-1">
+                          {diner.diets.map((key) => (
+                            <Badge key={key} variant="secondary">
+                              {getDietLabel(key)}
+                            </Badge>
+                          ))}
+                          {diner.restriction && (
+                            <span className="text-xs text-muted-foreground">
+                              {diner.restriction}
+                            </span>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Catering;
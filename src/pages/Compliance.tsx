@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import { FileSpreadsheet, Printer, ShieldAlert } from "lucide-react";
+import { PageHeader } from "@/components/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useEvent } from "@/hooks/use-events";
+import { useGuests } from "@/hooks/use-guests";
+import {
+  buildComplianceReport,
+  getComplianceStatusLabel,
+  toComplianceRows,
+  type ComplianceStatus,
+} from "@/lib/compliance";
+import { downloadCsv, slugify } from "@/lib/download";
+
+const STATUS_CLASSES: Record<ComplianceStatus, string> = {
+  ok: "",
+  missing: "bg-destructive/20 text-destructive border-destructive/30",
+  unknown: "bg-warning/20 text-warning border-warning/30",
+};
+
+const StatusBadge: React.FC<{ status: ComplianceStatus }> = ({ status }) => (
+  <Badge variant="secondary" className={STATUS_CLASSES[status]}>
+    {getComplianceStatusLabel(status)}
+  </Badge>
+);
+
+const Compliance = () => {
+  const { eventId } = useParams();
+  const { event } = useEvent(eventId);
+  const { guests, isLoading } = useGuests(eventId!);
+  const [onlyRides, setOnlyRides] = useState(true);
+
+  const report = useMemo(() => buildComplianceReport(guests), [guests]);
+  const entries = useMemo(
+    () => report.filter((entry) => !onlyRides || entry.rides),
+    [report, onlyRides]
+  );
+  const missingCount = entries.filter((entry) =>
+    entry.issues.some((issue) => issue.status === "missing")
+  ).length;
+
+  const handleExport = () =>
+    downloadCsv(
+      toComplianceRows(entries),
+      `carnet-seguro-${slugify(event?.name ?? "evento")}.csv`
+    );
+
+  if (!eventId) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader eventId={eventId} title="Carnet y seguro">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="only-rides"
+            checked={onlyRides}
+            onCheckedChange={setOnlyRides}
+          />
+          <Label htmlFor="only-rides" className="text-sm">
+            Solo rodadas
+          </Label>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleExport}
+          disabled={entries.length === 0}
+        >
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          CSV
+        </Button>
+        <Button onClick={() => window.print()} disabled={entries.length === 0}>
+          <Printer className="h-4 w-4 mr-2" />
+          Imprimir
+        </Button>
+      </PageHeader>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <div className="hidden print:block">
+          <h1 className="text-2xl font-bold">
+            Pilotos sin carnet o seguro: {event?.name}
+          </h1>
+          <p className="text-sm">
+            {onlyRides ? "Anotados a las rodadas. " : ""}Generado el{" "}
+            {new Date().toLocaleString("es-AR")}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground animate-pulse">
+            Cargando invitados...
+          </p>
+        ) : entries.length === 0 ? (
+          <Card className="card-moto p-6 text-center text-muted-foreground">
+            {onlyRides
+              ? "Todos los pilotos anotados a las rodadas declararon carnet y seguro vigentes."
+              : "Todos los pilotos declararon carnet y seguro vigentes."}
+          </Card>
+        ) : (
+          <Card className="card-moto space-y-4">
+            <h2 className="flex items-center gap-2 text-lg font-semibold print:hidden">
+              <ShieldAlert className="h-5 w-5 text-destructive" />
+              {entries.length} pilotos a revisar
+            </h2>
+            <p className="text-xs text-muted-foreground print:hidden">
+              {missingCount} declararon no tener carnet o seguro; el resto no
+              respondió. Los acompañantes no se controlan.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">N°</TableHead>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>DNI</TableHead>
+                  <TableHead>Moto</TableHead>
+                  <TableHead>Teléfono</TableHead>
+                  <TableHead>Carnet</TableHead>
+                  <TableHead>Seguro</TableHead>
+                  <TableHead>Ingresó</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry, index) => (
+                  <TableRow key={entry.guest.id} className="break-inside-avoid">
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell className="font-medium">{entry.name}</TableCell>
+                    <TableCell>{entry.document}</TableCell>
+                    <TableCell>{entry.motorcycle}</TableCell>
+                    <TableCell>{entry.phone}</TableCell>
+                    <TableCell>
+                      <StatusBadge status={entry.statuses.license} />
+                    </TableCell>
+                    <TableCell>
+                      <StatusBadge status={entry.statuses.insurance} />
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {entry.guest.confirmed ? "Sí" : "No"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Compliance;
@@ -0,0 +1,380 @@
+import React, { useMemo, useState } from "react";
+import { Navigate, useSearchParams } from "react-router-dom";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Pie,
+  PieChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { PageHeader } from "@/components/PageHeader";
+import { ProvinceBubbleMap } from "@/components/ProvinceBubbleMap";
+import { Card } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { getLastEventId, useEvent } from "@/hooks/use-events";
+import { useGuests } from "@/hooks/use-guests";
+import { useMotorcycleCatalogue } from "@/hooks/use-motorcycle-catalogue";
+import { usePlaceOverrides } from "@/hooks/use-place-overrides";
+import {
+  countRidersByProvince,
+  formatPlace,
+  rankTravellers,
+  resolvePlace,
+} from "@/lib/places";
+import {
+  buildDashboardStats,
+  formatHour,
+  type CountEntry,
+} from "@/lib/stats";
+
+const countConfig = {
+  count: { label: "Invitados", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const timelineConfig = {
+  total: { label: "Ingresados", color: "hsl(var(--success))" },
+  arrivals: { label: "Ingresos", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const companionConfig = {
+  withCompanion: { label: "Con acompañante", color: "hsl(var(--primary))" },
+  alone: { label: "Solos", color: "hsl(var(--moto-steel))" },
+} satisfies ChartConfig;
+
+const dinnerConfig = {
+  diners: { label: "Van a la cena", color: "hsl(var(--accent))" },
+  notDining: { label: "No van", color: "hsl(var(--moto-steel))" },
+} satisfies ChartConfig;
+
+// How many riders get a place in the "farthest travelled" list
+const TRAVELLERS_SHOWN = 10;
+
+interface ChartCardProps {
+  title: string;
+  description?: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const ChartCard: React.FC<ChartCardProps> = ({
+  title,
+  description,
+  className,
+  children,
+}) => (
+  <Card className={`card-moto space-y-3 ${className ?? ""}`}>
+    <div>
+      <h2 className="font-semibold">{title}</h2>
+      {description && (
+        <p className="text-xs text-muted-foreground">{description}</p>
+      )}
+    </div>
+    {children}
+  </Card>
+);
+
+const EmptyChart = () => (
+  <p className="py-12 text-center text-sm text-muted-foreground">
+    Todavía no hay datos.
+  </p>
+);
+
+// Horizontal bars, one per answer, for the free-text breakdowns
+const RankingChart: React.FC<{ data: CountEntry[] }> = ({ data }) =>
+  data.length === 0 ? (
+    <EmptyChart />
+  ) : (
+    <ChartContainer
+      config={countConfig}
+      className="aspect-auto w-full"
+      style={{ height: Math.max(data.length * 32, 120) }}
+    >
+      <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" allowDecimals={false} />
+        <YAxis
+          type="category"
+          dataKey="label"
+          width={130}
+          tickLine={false}
+          axisLine={false}
+        />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+
+interface ShareChartProps {
+  config: ChartConfig;
+  data: { key: string; value: number }[];
+}
+
+// Two-slice donut for yes/no splits
+const ShareChart: React.FC<ShareChartProps> = ({ config, data }) =>
+  data.every((slice) => slice.value === 0) ? (
+    <EmptyChart />
+  ) : (
+    <ChartContainer config={config} className="mx-auto aspect-square max-h-64">
+      <PieChart>
+        <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+        <Pie data={data} dataKey="value" nameKey="key" innerRadius="55%">
+          {data.map((slice) => (
+            <Cell key={slice.key} fill={`var(--color-${slice.key})`} />
+          ))}
+        </Pie>
+        <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+      </PieChart>
+    </ChartContainer>
+  );
+
+interface SummaryCardProps {
+  label: string;
+  value: React.ReactNode;
+  detail?: string;
+}
+
+const SummaryCard: React.FC<SummaryCardProps> = ({ label, value, detail }) => (
+  <Card className="card-moto">
+    <p className="text-sm text-muted-foreground">{label}</p>
+    <p className="text-3xl font-bold text-primary">{value}</p>
+    {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+  </Card>
+);
+
+interface DashboardViewProps {
+  eventId: string;
+}
+
+const DashboardView: React.FC<DashboardViewProps> = ({ eventId }) => {
+  const { event } = useEvent(eventId);
+  const { guests, isLoading } = useGuests(eventId);
+  const { catalogue } = useMotorcycleCatalogue();
+  const { overrides } = usePlaceOverrides();
+  const [onlyCheckedIn, setOnlyCheckedIn] = useState(true);
+  const stats = useMemo(
+    () => buildDashboardStats(guests, catalogue, overrides),
+    [guests, catalogue, overrides]
+  );
+  const provinceCounts = useMemo(
+    () => countRidersByProvince(guests, overrides),
+    [guests, overrides]
+  );
+  const venue = useMemo(
+    () => resolvePlace(event?.location ?? "", "", overrides),
+    [event?.location, overrides]
+  );
+  const travellers = useMemo(
+    () =>
+      rankTravellers(
+        onlyCheckedIn ? guests.filter((guest) => guest.confirmed) : guests,
+        venue,
+        overrides
+      ).slice(0, TRAVELLERS_SHOWN),
+    [guests, venue, overrides, onlyCheckedIn]
+  );
+  const timeline = useMemo(
+    () => stats.hourly.map((bucket) => ({ ...bucket, label: formatHour(bucket.hour) })),
+    [stats.hourly]
+  );
+  const progress = stats.total
+    ? Math.round((stats.confirmed / stats.total) * 100)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader eventId={eventId} title="Estadísticas" />
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <p className="text-muted-foreground animate-pulse">
+            Cargando invitados...
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <SummaryCard
+                label="Ingresados"
+                value={`${progress}%`}
+                detail={`${stats.confirmed} de ${stats.total} invitados`}
+              />
+              <SummaryCard label="Pilotos" value={stats.riders} />
+              <SummaryCard label="Acompañantes" value={stats.companions} />
+              <SummaryCard label="Cena show" value={stats.diners} detail="cubiertos" />
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-2">
+              <ChartCard
+                title="Avance del ingreso"
+                description="Invitados ingresados acumulados, por hora"
+              >
+                {timeline.length === 0 ? (
+                  <EmptyChart />
+                ) : (
+                  <ChartContainer config={timelineConfig} className="w-full">
+                    <AreaChart data={timeline} margin={{ left: 0, right: 8 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} minTickGap={24} />
+                      <YAxis allowDecimals={false} width={32} domain={[0, stats.total]} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Area
+                        dataKey="total"
+                        type="stepAfter"
+                        fill="var(--color-total)"
+                        fillOpacity={0.3}
+                        stroke="var(--color-total)"
+                      />
+                    </AreaChart>
+                  </ChartContainer>
+                )}
+              </ChartCard>
+
+              <ChartCard title="Ingresos por hora">
+                {timeline.length === 0 ? (
+                  <EmptyChart />
+                ) : (
+                  <ChartContainer config={timelineConfig} className="w-full">
+                    <BarChart data={timeline} margin={{ left: 0, right: 8 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} minTickGap={24} />
+                      <YAxis allowDecimals={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="arrivals" fill="var(--color-arrivals)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </ChartCard>
+
+              <ChartCard
+                title="Procedencias"
+                description="Pilotos por provincia, sobre el centro de cada una"
+              >
+                {provinceCounts.length === 0 ? (
+                  <EmptyChart />
+                ) : (
+                  <ProvinceBubbleMap
+                    provinces={provinceCounts}
+                    venue={
+                      venue.lat !== null && venue.lng !== null
+                        ? { lat: venue.lat, lng: venue.lng }
+                        : null
+                    }
+                    className="mx-auto h-[28rem] w-auto max-w-full"
+                  />
+                )}
+              </ChartCard>
+
+              <ChartCard
+                title="Los que más viajaron"
+                description="Distancia en línea recta hasta el evento"
+              >
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="only-checked-in"
+                    checked={onlyCheckedIn}
+                    onCheckedChange={setOnlyCheckedIn}
+                  />
+                  <Label htmlFor="only-checked-in" className="text-sm">
+                    Solo ingresados
+                  </Label>
+                </div>
+                {venue.lat === null ? (
+                  <p className="py-12 text-center text-sm text-muted-foreground">
+                    Cargá el lugar del evento con su ciudad y provincia (por
+                    ejemplo "Villa Carlos Paz, Córdoba") para calcular las
+                    distancias.
+                  </p>
+                ) : travellers.length === 0 ? (
+                  <EmptyChart />
+                ) : (
+                  <ol className="space-y-2">
+                    {travellers.map((traveller, index) => (
+                      <li
+                        key={traveller.guest.id}
+                        className="flex items-center gap-3 text-sm"
+                      >
+                        <span className="w-6 text-right font-bold text-primary">
+                          {index + 1}
+                        </span>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium truncate">{traveller.name}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {formatPlace(traveller.place)}
+                          </p>
+                        </div>
+                        <span className="font-semibold whitespace-nowrap">
+                          {traveller.place.precision === "province" && "≈ "}
+                          {traveller.distance.toLocaleString("es-AR")} km
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </ChartCard>
+
+              <ChartCard title="Provincias" description="Pilotos por provincia">
+                <RankingChart data={stats.provinces} />
+              </ChartCard>
+
+              <ChartCard title="Ciudades" description="Pilotos por ciudad">
+                <RankingChart data={stats.cities} />
+              </ChartCard>
+
+              <ChartCard title="Marcas" description="Pilotos por marca de moto">
+                <RankingChart data={stats.makes} />
+              </ChartCard>
+
+              <ChartCard title="Grupo sanguíneo" description="Pilotos por grupo sanguíneo">
+                <RankingChart data={stats.bloodTypes} />
+              </ChartCard>
+
+              <ChartCard title="Acompañantes" description="Pilotos que vienen acompañados">
+                <ShareChart
+                  config={companionConfig}
+                  data={[
+                    { key: "withCompanion", value: stats.withCompanion },
+                    { key: "alone", value: stats.alone },
+                  ]}
+                />
+              </ChartCard>
+
+              <ChartCard title="Cena show" description="Todos los invitados">
+                <ShareChart
+                  config={dinnerConfig}
+                  data={[
+                    { key: "diners", value: stats.diners },
+                    { key: "notDining", value: stats.total - stats.diners },
+                  ]}
+                />
+              </ChartCard>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+const Dashboard = () => {
+  const [searchParams] = useSearchParams();
+  const eventId = searchParams.get("event") ?? getLastEventId();
+
+  if (!eventId) return <Navigate to="/" replace />;
+  return <DashboardView key={eventId} eventId={eventId} />;
+};
+
+export default Dashboard;
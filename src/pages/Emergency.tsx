@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from "react";
+import { Navigate, useSearchParams } from "react-router-dom";
+import {
+  AlertTriangle,
+  Bike,
+  HeartPulse,
+  Phone,
+  Printer,
+  Search,
+  Users,
+} from "lucide-react";
+import { PageHeader } from "@/components/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getLastEventId, useEvent } from "@/hooks/use-events";
+import { useGuests } from "@/hooks/use-guests";
+import {
+  buildEmergencyList,
+  telHref,
+  type EmergencyInfo,
+} from "@/lib/emergency";
+import { buildSearchIndex, searchGuests } from "@/lib/guestSearch";
+
+const CallButton: React.FC<{ number: string; label: string }> = ({
+  number,
+  label,
+}) => (
+  <Button size="sm" variant="outline" asChild>
+    <a href={telHref(number)}>
+      <Phone className="h-4 w-4 mr-2" />
+      {label}
+    </a>
+  </Button>
+);
+
+const describePartner = ({ partner }: EmergencyInfo) => {
+  if (!partner) return "";
+  const document = partner.document ? ` (DNI ${partner.document})` : "";
+  return partner.role === "rider"
+    ? `Viaja con ${partner.name}${document}`
+    : `Acompañante: ${partner.name}${document}`;
+};
+
+const EmergencyCard: React.FC<{ info: EmergencyInfo }> = ({ info }) => (
+  <Card className="card-moto space-y-4">
+    <div className="flex items-start justify-between gap-4">
+      <div className="min-w-0">
+        <p className="text-2xl font-bold truncate">{info.name}</p>
+        <div className="flex flex-wrap gap-x-4 text-muted-foreground">
+          {info.document && <span>DNI {info.document}</span>}
+          {info.motorcycle && (
+            <span className="flex items-center gap-1">
+              <Bike className="h-4 w-4" />
+              {info.motorcycle}
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="shrink-0 text-center">
+        <HeartPulse className="h-5 w-5 text-destructive mx-auto" />
+        <p className="text-2xl font-bold">{info.bloodType || "¿?"}</p>
+        <p className="text-xs text-muted-foreground">Grupo</p>
+      </div>
+    </div>
+
+    {info.allergies !== null && (
+      <div className="flex items-center gap-3 rounded-lg border border-destructive/40 bg-destructive/10 p-3 text-lg font-medium text-destructive">
+        <AlertTriangle className="h-6 w-6 shrink-0" />
+        {info.allergies ? `Alérgico: ${info.allergies}` : "Alérgico (sin detalle)"}
+      </div>
+    )}
+
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">Contacto de emergencia</p>
+      <p className="font-medium">{info.emergencyContact || "No declarado"}</p>
+      <div className="flex flex-wrap gap-2">
+        {info.emergencyPhones.map((number) => (
+          <CallButton key={number} number={number} label={number} />
+        ))}
+        {info.phone && <CallButton number={info.phone} label="Llamar al invitado" />}
+      </div>
+    </div>
+
+    {info.partner && (
+      <div className="flex flex-wrap items-center gap-2 border-t border-border pt-3">
+        <Users className="h-4 w-4 text-primary" />
+        <span>{describePartner(info)}</span>
+        <Badge variant="secondary">
+          {info.partner.guest.confirmed ? "Ingresó" : "No ingresó"}
+        </Badge>
+        {info.partner.phone && (
+          <CallButton number={info.partner.phone} label="Llamar" />
+        )}
+      </div>
+    )}
+  </Card>
+);
+
+interface EmergencySheetProps {
+  list: EmergencyInfo[];
+  eventName?: string;
+}
+
+// Only shown on paper: everyone at a glance for the ambulance crew
+const EmergencySheet: React.FC<EmergencySheetProps> = ({ list, eventName }) => (
+  <div className="hidden print:block space-y-2">
+    <h1 className="text-xl font-bold">Planilla de emergencias: {eventName}</h1>
+    <p className="text-xs">Generada el {new Date().toLocaleString("es-AR")}</p>
+    <Table className="text-xs">
+      <TableHeader>
+        <TableRow>
+          <TableHead>N°</TableHead>
+          <TableHead>Nombre</TableHead>
+          <TableHead>DNI</TableHead>
+          <TableHead>Grupo</TableHead>
+          <TableHead>Alergias</TableHead>
+          <TableHead>Contacto de emergencia</TableHead>
+          <TableHead>Acompañante</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {list.map((info, index) => (
+          <TableRow key={info.guest.id} className="break-inside-avoid">
+            <TableCell>{index + 1}</TableCell>
+            <TableCell className="font-medium">{info.name}</TableCell>
+            <TableCell>{info.document}</TableCell>
+            <TableCell className="font-bold">{info.bloodType}</TableCell>
+            <TableCell>
+              {info.allergies === null ? "-" : info.allergies || "Sí, sin detalle"}
+            </TableCell>
+            <TableCell>{info.emergencyContact}</TableCell>
+            <TableCell>{describePartner(info)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+interface EmergencyStationProps {
+  eventId: string;
+}
+
+const EmergencyStation: React.FC<EmergencyStationProps> = ({ eventId }) => {
+  const { event } = useEvent(eventId);
+  const { guests, isLoading } = useGuests(eventId);
+  const [query, setQuery] = useState("");
+  const [onlyPresent, setOnlyPresent] = useState(true);
+
+  const list = useMemo(() => buildEmergencyList(guests), [guests]);
+  const byId = useMemo(
+    () => new Map(list.map((info) => [info.guest.id, info])),
+    [list]
+  );
+  const searchIndex = useMemo(() => buildSearchIndex(guests), [guests]);
+
+  const results = useMemo(() => {
+    if (!query.trim()) {
+      return list.filter((info) => info.allergies !== null);
+    }
+    return searchGuests(searchIndex, query, 10).map((guest) => byId.get(guest.id)!);
+  }, [query, list, searchIndex, byId]);
+
+  const sheet = useMemo(
+    () =>
+      list
+        .filter((info) => !onlyPresent || info.guest.confirmed)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [list, onlyPresent]
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader eventId={eventId} title="Emergencias">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="only-present"
+            checked={onlyPresent}
+            onCheckedChange={setOnlyPresent}
+          />
+          <Label htmlFor="only-present" className="text-sm">
+            Solo presentes
+          </Label>
+        </div>
+        <Button onClick={() => window.print()} disabled={sheet.length === 0}>
+          <Printer className="h-4 w-4 mr-2" />
+          Imprimir planilla ({sheet.length})
+        </Button>
+      </PageHeader>
+
+      <main className="container mx-auto max-w-3xl px-4 py-6 space-y-4 print:hidden">
+        <div className="relative">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Nombre, DNI o moto..."
+            className="h-14 pl-12 text-xl"
+            autoComplete="off"
+            autoFocus
+          />
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground animate-pulse">
+            Cargando invitados...
+          </p>
+        ) : (
+          <>
+            {!query.trim() && (
+              <p className="text-sm text-muted-foreground">
+                {results.length > 0
+                  ? `${results.length} invitados declararon alergias.`
+                  : "Nadie declaró alergias. Buscá a un invitado para ver sus datos."}
+              </p>
+            )}
+            {query.trim() && results.length === 0 && (
+              <p className="text-muted-foreground">
+                Sin resultados para "{query.trim()}".
+              </p>
+            )}
+            {results.map((info) => (
+              <EmergencyCard key={info.guest.id} info={info} />
+            ))}
+          </>
+        )}
+      </main>
+
+      <EmergencySheet list={sheet} eventName={event?.name} />
+    </div>
+  );
+};
+
+const Emergency = () => {
+  const [searchParams] = useSearchParams();
+  const eventId = searchParams.get("event") ?? getLastEventId();
+
+  if (!eventId) return <Navigate to="/" replace />;
+  return <EmergencyStation key={eventId} eventId={eventId} />;
+};
+
+export default Emergency;
@@ -0,0 +1,304 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Navigate, useSearchParams } from "react-router-dom";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Clock,
+  Search,
+  UserCheck,
+  UserPlus,
+  Users,
+} from "lucide-react";
+import { PageHeader } from "@/components/PageHeader";
+import { SyncStatus } from "@/components/SyncStatus";
+import { WalkInDialog } from "@/components/WalkInDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useCheckInStation } from "@/hooks/use-check-in-station";
+import { getLastEventId } from "@/hooks/use-events";
+import { describeCheckIn } from "@/lib/checkIn";
+import { describeCompanionLink } from "@/lib/companions";
+import { parseDocumentInput } from "@/lib/dni";
+import { getGuestAlerts } from "@/lib/guestAlerts";
+import { getGuestField } from "@/lib/guestFields";
+import { buildSearchIndex, searchGuests } from "@/lib/guestSearch";
+import { asGuestData, getGuestName, type Guest } from "@/lib/guests";
+import { cn } from "@/lib/utils";
+
+// How long the last confirmed rider stays on screen
+const LAST_CHECK_IN_MS = 8_000;
+
+interface GuestResultCardProps {
+  guest: Guest;
+  // Who a companion came with, or how the rider's companion is doing
+  link?: string;
+  isSelected: boolean;
+  onSelect: () => void;
+  onConfirm: () => void;
+}
+
+const GuestResultCard: React.FC<GuestResultCardProps> = ({
+  guest,
+  link,
+  isSelected,
+  onSelect,
+  onConfirm,
+}) => {
+  const data = asGuestData(guest.guest_data);
+  const document = getGuestField(data, "document");
+  const alerts = getGuestAlerts(guest);
+
+  return (
+    <Card
+      onMouseEnter={onSelect}
+      onClick={onConfirm}
+      className={cn(
+        "card-moto cursor-pointer p-4 lg:p-6 transition-colors",
+        isSelected && "border-primary ring-2 ring-primary",
+        guest.confirmed && "bg-success/10"
+      )}
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 space-y-1">
+          <p className="text-xl lg:text-3xl font-bold truncate">
+            {getGuestName(data, guest.guest_id)}
+          </p>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground lg:text-lg">
+            {document && <span>DNI {document}</span>}
+            {link && (
+              <span className="flex items-center gap-1">
+                <Users className="h-4 w-4" />
+                {link}
+              </span>
+            )}
+          </div>
+          {alerts.length > 0 && (
+            <div className="flex flex-wrap gap-2 pt-1">
+              {alerts.map((alert) => (
+                <Badge
+                  key={alert.key}
+                  variant="secondary"
+                  className={
+                    alert.severity === "danger"
+                      ? "bg-destructive/20 text-destructive border-destructive/30"
+                      : "bg-warning/20 text-warning border-warning/30"
+                  }
+                >
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  {alert.message}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+        {guest.confirmed ? (
+          <Badge className="shrink-0 bg-success/20 text-success border-success/30">
+            <CheckCircle2 className="h-4 w-4 mr-1" />
+            Ingresó {describeCheckIn(guest)}
+          </Badge>
+        ) : (
+          <Badge variant="secondary" className="shrink-0">
+            <Clock className="h-4 w-4 mr-1" />
+            Pendiente
+          </Badge>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+interface FastCheckInStationProps {
+  eventId: string;
+}
+
+const FastCheckInStation: React.FC<FastCheckInStationProps> = ({
+  eventId,
+}) => {
+  const { canCheckIn } = useAuth();
+  const {
+    guests,
+    isLoading,
+    isOnline,
+    isSyncing,
+    pendingCount,
+    sync,
+    confirm,
+    isConfirming,
+  } = useCheckInStation(eventId);
+  const [query, setQuery] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [lastCheckIn, setLastCheckIn] = useState<Guest | null>(null);
+  const [isWalkInOpen, setIsWalkInOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const searchIndex = useMemo(() => buildSearchIndex(guests), [guests]);
+  const results = useMemo(
+    () => searchGuests(searchIndex, query),
+    [searchIndex, query]
+  );
+  // Start the walk-in form from whatever was typed: a DNI or a name
+  const walkInValues = useMemo(() => {
+    const document = parseDocumentInput(query);
+    return document ? { document } : { fullName: query.trim() };
+  }, [query]);
+  const confirmedCount = useMemo(
+    () => guests.filter((guest) => guest.confirmed).length,
+    [guests]
+  );
+
+  const lastCheckInLink = lastCheckIn
+    ? describeCompanionLink(lastCheckIn, guests)
+    : undefined;
+
+  useEffect(() => {
+    if (!lastCheckIn) return;
+    const timer = setTimeout(() => setLastCheckIn(null), LAST_CHECK_IN_MS);
+    return () => clearTimeout(timer);
+  }, [lastCheckIn]);
+
+  const reset = () => {
+    setQuery("");
+    setSelectedIndex(0);
+    inputRef.current?.focus();
+  };
+
+  const handleConfirm = async (guest: Guest | undefined) => {
+    if (!guest || !canCheckIn || isConfirming) return;
+    if (await confirm(guest)) {
+      setLastCheckIn(guest);
+      reset();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setSelectedIndex((i) => Math.min(i + 1, results.length - 1));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "Enter":
+        e.preventDefault();
+        handleConfirm(results[selectedIndex]);
+        break;
+      case "Escape":
+        reset();
+        break;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader eventId={eventId} title="Ingreso rápido">
+        <Badge variant="secondary" className="text-sm">
+          <UserCheck className="h-4 w-4 mr-1" />
+          {confirmedCount} / {guests.length}
+        </Badge>
+        <SyncStatus
+          isOnline={isOnline}
+          isSyncing={isSyncing}
+          pendingCount={pendingCount}
+          onSync={sync}
+        />
+      </PageHeader>
+
+      <main className="container mx-auto max-w-4xl px-4 py-6 space-y-4">
+        <div className="relative">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-6 w-6 text-muted-foreground" />
+          <Input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelectedIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Nombre, DNI o teléfono..."
+            className="h-16 pl-14 text-2xl"
+            autoComplete="off"
+            autoFocus
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          ↑ ↓ para elegir · Enter para confirmar · Esc para limpiar
+          {!canCheckIn && " · Tu rol es de solo lectura"}
+        </p>
+
+        {lastCheckIn && !query && (
+          <Card className="card-moto border-success/40 bg-success/10 p-4">
+            <p className="flex items-center gap-2 text-lg font-semibold text-success">
+              <CheckCircle2 className="h-5 w-5" />
+              Ingresó{" "}
+              {getGuestName(
+                asGuestData(lastCheckIn.guest_data),
+                lastCheckIn.guest_id
+              )}
+            </p>
+            {lastCheckInLink && (
+              <p className="flex items-center gap-2 text-sm">
+                <Users className="h-4 w-4" />
+                {lastCheckInLink}
+              </p>
+            )}
+            {getGuestAlerts(lastCheckIn).map((alert) => (
+              <p
+                key={alert.key}
+                className="flex items-center gap-2 text-sm text-warning"
+              >
+                <AlertTriangle className="h-4 w-4" />
+                {alert.message}
+              </p>
+            ))}
+          </Card>
+        )}
+
+        {isLoading ? (
+          <p className="text-muted-foreground animate-pulse">
+            Cargando invitados...
+          </p>
+        ) : query.trim() && results.length === 0 ? (
+          <div className="space-y-3">
+            <p className="text-lg text-muted-foreground">
+              Sin resultados para "{query.trim()}".
+            </p>
+            {canCheckIn && (
+              <Button size="lg" onClick={() => setIsWalkInOpen(true)}>
+                <UserPlus className="h-5 w-5 mr-2" />
+                Registrar como nuevo invitado
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {results.map((guest, index) => (
+              <GuestResultCard
+                key={guest.id}
+                guest={guest}
+                link={describeCompanionLink(guest, guests)}
+                isSelected={index === selectedIndex}
+                onSelect={() => setSelectedIndex(index)}
+                onConfirm={() => handleConfirm(guest)}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+const FastCheckIn = () => {
+  const [searchParams] = useSearchParams();
+  const eventId = searchParams.get("event") ?? getLastEventId();
+
+  if (!eventId) return <Navigate to="/" replace />;
+  return <FastCheckInStation key={eventId} eventId={eventId} />;
+};
+
+export default FastCheckIn;
@@ -1,11 +1,18 @@
 import React, { useState, useEffect } from "react";
-import { Bike, Users, Database } from "lucide-react";
+import { Navigate, useParams } from "react-router-dom";
+import { Bike, Users, Database, MapPin, CalendarDays } from "lucide-react";
+import { ActivityFeed } from "@/components/ActivityFeed";
 import { CSVUploader } from "@/components/CSVUploader";
+import { EventNav } from "@/components/EventNav";
+import { EventSwitcher } from "@/components/EventSwitcher";
 import { GuestTable } from "@/components/GuestTable";
+import { UserMenu } from "@/components/UserMenu";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import motoLogo from "@/assets/moto-logo.png";
 import motoEventHero from "@/assets/moto-event-hero.jpg";
+import { useAuth } from "@/hooks/use-auth";
+import { getLastEventId, setLastEventId, useEvents } from "@/hooks/use-events";
 
 const motoColors = [
   { name: "Verde", filter: "hue-rotate(90deg) brightness(1.1)" },
@@ -17,7 +24,21 @@ const motoColors = [
   { name: "Roja", filter: "none" },
 ];
 
+const formatEventDates = (start: string | null, end: string | null) => {
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString("es-AR", {
+      day: "numeric",
+      month: "short",
+    });
+  if (!start) return null;
+  return end && end !== start ? `${format(start)} - ${format(end)}` : format(start);
+};
+
 const Index = () => {
+  const { eventId } = useParams();
+  const { data: events, isLoading: eventsLoading } = useEvents();
+  const { isAdmin, isMedic } = useAuth();
+  const event = events?.find((e) => e.id === eventId);
   const [guestData, setGuestData] = useState<any[]>([]);
   const [headers, setHeaders] = useState<string[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
@@ -30,6 +51,29 @@ const Index = () => {
     return () => clearInterval(interval);
   }, []);
 
+  // Each event has its own guest list
+  useEffect(() => {
+    setGuestData([]);
+    setHeaders([]);
+    setSearchTerm("");
+    if (eventId) setLastEventId(eventId);
+  }, [eventId]);
+
+  if (!eventId && events && events.length > 0) {
+    const lastEventId = getLastEventId();
+    const target = events.find((e) => e.id === lastEventId) ?? events[0];
+    return <Navigate to={`/events/${target.id}`} replace />;
+  }
+
+  // First-aid staff only work from the emergency view
+  if (eventId && isMedic) {
+    return <Navigate to={`/emergency?event=${eventId}`} replace />;
+  }
+
+  const eventDates = event
+    ? formatEventDates(event.start_date, event.end_date)
+    : null;
+
   const handleDataLoad = (data: any[], csvHeaders: string[]) => {
     setGuestData(data);
     setHeaders(csvHeaders);
@@ -39,7 +83,14 @@ const Index = () => {
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
-      <header className="sticky top-0 z-40 bg-background/80 backdrop-blur-lg border-b border-border overflow-hidden">
+      <header
+        className="sticky top-0 z-40 bg-background/80 backdrop-blur-lg border-b border-border overflow-hidden"
+        style={
+          event?.primary_color
+            ? { borderBottomColor: event.primary_color }
+            : undefined
+        }
+      >
         <div className="container mx-auto px-2 sm:px-4 py-2 sm:py-4">
           <div className="flex flex-col sm:flex-row items-center justify-between">
             <div className="flex flex-col sm:flex-row items-center w-full mb-2 sm:mb-0">
@@ -70,6 +121,35 @@ const Index = () => {
                 </p>
               </div>
             </div>
+            <div className="flex flex-col items-center sm:items-end gap-1">
+              <div className="flex items-center gap-2">
+                <EventSwitcher eventId={eventId} />
+                <UserMenu />
+              </div>
+              {event && (
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  {event.logo_url && (
+                    <img
+                      src={event.logo_url}
+                      alt={event.name}
+                      className="h-6 w-6 rounded object-contain"
+                    />
+                  )}
+                  {eventDates && (
+                    <span className="flex items-center gap-1">
+                      <CalendarDays className="h-3 w-3" />
+                      {eventDates}
+                    </span>
+                  )}
+                  {event.location && (
+                    <span className="flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      {event.location}
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -130,34 +210,58 @@ const Index = () => {
               <div className="absolute inset-0 bg-gradient-to-t from-background via-background/50 to-transparent" />
               <div className="absolute bottom-6 left-6 right-6">
                 <h2 className="text-2xl md:text-3xl font-bold text-foreground mb-2">
-                  Bienvenido al Sistema de Validación
+                  {event ? event.name : "Bienvenido al Sistema de Validación"}
                 </h2>
                 <p className="text-muted-foreground">
-                  Carga tu archivo CSV o Excel para comenzar la validación de
-                  invitados
+                  {eventId
+                    ? isAdmin
+                      ? "Carga tu archivo CSV o Excel para comenzar la validación de invitados"
+                      : "Todavía no hay invitados cargados para este evento"
+                    : eventsLoading
+                    ? "Cargando eventos..."
+                    : isAdmin
+                    ? "Creá tu primer evento con el botón del encabezado para comenzar"
+                    : "Todavía no hay eventos disponibles"}
                 </p>
               </div>
             </div>
           </Card>
         )}
 
-        {/* CSV Upload Section */}
-        <details className="mb-4" style={{ userSelect: "none" }}>
-          <summary className="cursor-pointer font-semibold text-primary py-2 px-2 rounded hover:bg-accent/20 transition">
-            Cargar archivo CSV o Excel
-          </summary>
-          <div className="pt-2">
-            <CSVUploader onDataLoad={handleDataLoad} />
-          </div>
-        </details>
-
-        {/* Guest Table Section */}
-        <GuestTable
-          data={guestData}
-          headers={headers}
-          searchTerm={searchTerm}
-          onSearchChange={setSearchTerm}
-        />
+        {eventId && (
+          <>
+            <EventNav eventId={eventId} />
+
+            {/* CSV Upload Section (admins only) */}
+            {isAdmin && (
+              <details className="mb-4" style={{ userSelect: "none" }}>
+                <summary className="cursor-pointer font-semibold text-primary py-2 px-2 rounded hover:bg-accent/20 transition">
+                  Cargar archivo CSV o Excel
+                </summary>
+                <div className="pt-2">
+                  <CSVUploader
+                    key={eventId}
+                    eventId={eventId}
+                    onDataLoad={handleDataLoad}
+                  />
+                </div>
+              </details>
+            )}
+
+            {/* Guest Table Section */}
+            <GuestTable
+              key={eventId}
+              eventId={eventId}
+              data={guestData}
+              headers={headers}
+              searchTerm={searchTerm}
+              onSearchChange={setSearchTerm}
+            />
+
+            {/* Check-in activity */}
+            <ActivityFeed key={`activity-${eventId}`} eventId={eventId} />
+          </>
+        )}
 
         {/* Database Preparation Info */}
         {guestData.length > 0 && (
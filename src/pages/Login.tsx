@@ -0,0 +1,87 @@
+import React, { useState } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { LogIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+
+const Login = () => {
+  const { session, signIn } = useAuth();
+  const location = useLocation();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const from = (location.state as { from?: string } | null)?.from ?? "/";
+
+  if (session) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await signIn(email.trim(), password);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "";
+      setError(
+        message === "Invalid login credentials"
+          ? "Email o contraseña incorrectos"
+          : message || "No se pudo iniciar sesión"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="card-moto w-full max-w-sm p-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="text-center">
+            <h1 className="text-xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+              Validación de Invitados
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Ingresá con tu cuenta de organizador
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="login-email">Email</Label>
+            <Input
+              id="login-email"
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="login-password">Contraseña</Label>
+            <Input
+              id="login-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            <LogIn className="h-4 w-4 mr-2" />
+            {isSubmitting ? "Ingresando..." : "Ingresar"}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
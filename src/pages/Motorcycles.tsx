@@ -0,0 +1,201 @@
+import React, { useMemo } from "react";
+import { useParams } from "react-router-dom";
+import { Bike, FileSpreadsheet, HelpCircle, Printer, RefreshCw, Trophy } from "lucide-react";
+import { MotorcycleCatalogueEditor } from "@/components/MotorcycleCatalogueEditor";
+import { PageHeader } from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useEvent } from "@/hooks/use-events";
+import { useGuests } from "@/hooks/use-guests";
+import {
+  useMotorcycleCatalogue,
+  useNormalizeMotorcycles,
+} from "@/hooks/use-motorcycle-catalogue";
+import { useToast } from "@/hooks/use-toast";
+import { downloadCsv, slugify } from "@/lib/download";
+import {
+  buildMotorcycleReport,
+  planMotorcycleNormalization,
+  toMakeRankingRows,
+} from "@/lib/motorcycles";
+
+const Motorcycles = () => {
+  const { eventId } = useParams();
+  const { event } = useEvent(eventId);
+  const { isAdmin } = useAuth();
+  const { guests, isLoading } = useGuests(eventId!);
+  const { catalogue } = useMotorcycleCatalogue();
+  const normalize = useNormalizeMotorcycles(eventId!);
+  const { toast } = useToast();
+
+  const report = useMemo(
+    () => buildMotorcycleReport(guests, catalogue),
+    [guests, catalogue]
+  );
+  const pendingCount = useMemo(
+    () => planMotorcycleNormalization(guests, catalogue).length,
+    [guests, catalogue]
+  );
+
+  const handleExport = () =>
+    downloadCsv(
+      toMakeRankingRows(report.ranking),
+      `marcas-${slugify(event?.name ?? "evento")}.csv`
+    );
+
+  const handleNormalize = async () => {
+    try {
+      const updated = await normalize.mutateAsync({ guests, catalogue });
+      toast({
+        title: "Motos normalizadas",
+        description: `${updated} invitados actualizados.`,
+      });
+    } catch (error) {
+      console.error("Error normalizing motorcycles:", error);
+      toast({
+        title: "Error al normalizar",
+        description:
+          (error instanceof Error && error.message) ||
+          "No se pudieron actualizar las motos.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!eventId) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader eventId={eventId} title="Motos y marcas">
+        {isAdmin && pendingCount > 0 && (
+          <Button
+            variant="outline"
+            onClick={handleNormalize}
+            disabled={normalize.isPending}
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Normalizar {pendingCount} motos
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          onClick={handleExport}
+          disabled={report.ranking.length === 0}
+        >
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          CSV
+        </Button>
+        <Button onClick={() => window.print()} disabled={report.ranking.length === 0}>
+          <Printer className="h-4 w-4 mr-2" />
+          Imprimir
+        </Button>
+      </PageHeader>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <div className="hidden print:block">
+          <h1 className="text-2xl font-bold">Ranking de marcas: {event?.name}</h1>
+          <p className="text-sm">
+            {report.recognized} motos reconocidas. Generado el{" "}
+            {new Date().toLocaleString("es-AR")}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground animate-pulse">
+            Cargando invitados...
+          </p>
+        ) : report.ranking.length === 0 ? (
+          <Card className="card-moto p-6 text-center text-muted-foreground">
+            Todavía no hay motos reconocidas en la lista.
+          </Card>
+        ) : (
+          <Card className="card-moto space-y-4">
+            <h2 className="flex items-center gap-2 text-lg font-semibold">
+              <Trophy className="h-5 w-5 text-primary" />
+              Ranking de marcas
+            </h2>
+            <p className="text-xs text-muted-foreground print:hidden">
+              {report.recognized} motos reconocidas
+              {report.unrecognized.length > 0 &&
+                `, ${report.unrecognized.reduce((sum, e) => sum + e.riders, 0)} sin reconocer`}
+              . Los porcentajes son sobre las reconocidas.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">N°</TableHead>
+                  <TableHead>Marca</TableHead>
+                  <TableHead className="text-right">Pilotos</TableHead>
+                  <TableHead className="text-right">%</TableHead>
+                  <TableHead>Modelos</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.ranking.map((entry, index) => (
+                  <TableRow key={entry.make} className="break-inside-avoid">
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell className="font-medium">{entry.make}</TableCell>
+                    <TableCell className="text-right">{entry.riders}</TableCell>
+                    <TableCell className="text-right">{entry.share}%</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {entry.models
+                        .map((model) => `${model.model} (${model.riders})`)
+                        .join(", ")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+
+        {report.unrecognized.length > 0 && (
+          <Card className="card-moto space-y-3 print:hidden">
+            <h2 className="flex items-center gap-2 text-lg font-semibold">
+              <HelpCircle className="h-5 w-5 text-warning" />
+              Sin reconocer
+            </h2>
+            <p className="text-xs text-muted-foreground">
+              Respuestas que no coinciden con ninguna marca del catálogo.
+              {isAdmin && " Agregá la marca o un alias para contarlas."}
+            </p>
+            <div className="flex flex-wrap gap-2 text-sm">
+              {report.unrecognized.map((entry) => (
+                <span
+                  key={entry.text}
+                  className="rounded-md border border-border px-2 py-1"
+                >
+                  {entry.text}
+                  {entry.riders > 1 && (
+                    <span className="text-muted-foreground"> ×{entry.riders}</span>
+                  )}
+                </span>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {isAdmin && (
+          <Card className="card-moto space-y-3 print:hidden">
+            <h2 className="flex items-center gap-2 text-lg font-semibold">
+              <Bike className="h-5 w-5 text-primary" />
+              Catálogo de motos
+            </h2>
+            <MotorcycleCatalogueEditor />
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Motorcycles;
@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Check, CheckCircle2, HelpCircle, Undo2 } from "lucide-react";
+import { PageHeader } from "@/components/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useGuests } from "@/hooks/use-guests";
+import {
+  usePlaceOverrides,
+  useSavePlaceOverride,
+} from "@/hooks/use-place-overrides";
+import { useToast } from "@/hooks/use-toast";
+import { LOCALITIES, PROVINCES } from "@/lib/argentinaPlaces";
+import {
+  formatPlace,
+  groupPlaceAnswers,
+  needsReview,
+  type PlaceAnswer,
+  type PlaceChoice,
+} from "@/lib/places";
+
+// Keeps the town as the rider typed it, for towns missing from the list
+const TYPED = "__typed";
+
+const formatAnswer = (answer: PlaceAnswer) =>
+  [answer.city, answer.province].filter(Boolean).join(" / ");
+
+interface ReviewRowProps {
+  answer: PlaceAnswer;
+  canEdit: boolean;
+  isSaving: boolean;
+  onSave: (choice: PlaceChoice) => void;
+}
+
+const ReviewRow: React.FC<ReviewRowProps> = ({
+  answer,
+  canEdit,
+  isSaving,
+  onSave,
+}) => {
+  const suggestion = answer.place;
+  const [province, setProvince] = useState(suggestion.province ?? "");
+  const [city, setCity] = useState(
+    suggestion.precision === "city" && suggestion.city ? suggestion.city : TYPED
+  );
+  const localities = LOCALITIES.filter((l) => l.province === province);
+
+  const handleProvinceChange = (value: string) => {
+    setProvince(value);
+    setCity(TYPED);
+  };
+
+  const handleSave = () =>
+    onSave({
+      province,
+      city: city === TYPED ? answer.city || null : city,
+    });
+
+  return (
+    <div className="space-y-2 border-b border-border py-3 last:border-0">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">{formatAnswer(answer)}</span>
+        <span className="text-xs text-muted-foreground">
+          {answer.riders} {answer.riders === 1 ? "piloto" : "pilotos"}
+        </span>
+        {suggestion.match === "fuzzy" ? (
+          <Badge variant="outline" className="border-warning text-warning">
+            ¿{formatPlace(suggestion)}?
+            {suggestion.precision === "province" &&
+              answer.city &&
+              " (localidad no listada)"}
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="text-muted-foreground">
+            Sin coincidencia
+          </Badge>
+        )}
+      </div>
+      {canEdit && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={province} onValueChange={handleProvinceChange}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Provincia" />
+            </SelectTrigger>
+            <SelectContent>
+              {PROVINCES.map((p) => (
+                <SelectItem key={p.name} value={p.name}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={city} onValueChange={setCity} disabled={!province}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TYPED}>
+                {answer.city ? `"${answer.city}" (como está)` : "Sin ciudad"}
+              </SelectItem>
+              {localities.map((l) => (
+                <SelectItem key={l.name} value={l.name}>
+                  {l.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={handleSave} disabled={!province || isSaving}>
+            <Check className="h-4 w-4 mr-2" />
+            Confirmar
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Places = () => {
+  const { eventId } = useParams();
+  const { isAdmin } = useAuth();
+  const { guests, isLoading } = useGuests(eventId!);
+  const { overrides } = usePlaceOverrides();
+  const saveOverride = useSavePlaceOverride();
+  const { toast } = useToast();
+
+  const answers = useMemo(
+    () => groupPlaceAnswers(guests, overrides),
+    [guests, overrides]
+  );
+  const pending = answers.filter((answer) => needsReview(answer.place));
+  const reviewed = answers.filter((answer) => answer.place.match === "reviewed");
+  const matchedRiders = answers
+    .filter((answer) => !needsReview(answer.place))
+    .reduce((sum, answer) => sum + answer.riders, 0);
+
+  const save = async (key: string, choice: PlaceChoice | null) => {
+    try {
+      await saveOverride.mutateAsync({ key, choice });
+    } catch (error) {
+      console.error("Error saving place review:", error);
+      toast({
+        title: "Error al guardar",
+        description:
+          (error instanceof Error && error.message) ||
+          "No se pudo guardar la revisión.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!eventId) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader eventId={eventId} title="Procedencias" />
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <p className="text-muted-foreground animate-pulse">
+            Cargando invitados...
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {matchedRiders} pilotos ubicados por su ciudad y provincia.
+              {pending.length > 0 &&
+                ` ${pending.length} respuestas para revisar.`}{" "}
+              Las revisiones valen para todos los eventos.
+            </p>
+
+            <Card className="card-moto space-y-2">
+              <h2 className="flex items-center gap-2 text-lg font-semibold">
+                <HelpCircle className="h-5 w-5 text-warning" />
+                Para revisar
+              </h2>
+              {pending.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Todas las procedencias están reconocidas.
+                </p>
+              ) : (
+                <>
+                  {!isAdmin && (
+                    <p className="text-xs text-muted-foreground">
+                      Un administrador puede confirmar cada respuesta.
+                    </p>
+                  )}
+                  <div>
+                    {pending.map((answer) => (
+                      <ReviewRow
+                        key={answer.key}
+                        answer={answer}
+                        canEdit={isAdmin}
+                        isSaving={saveOverride.isPending}
+                        onSave={(choice) => save(answer.key, choice)}
+                      />
+                    ))}
+                  </div>
+                </>
+              )}
+            </Card>
+
+            {reviewed.length > 0 && (
+              <Card className="card-moto space-y-2">
+                <h2 className="flex items-center gap-2 text-lg font-semibold">
+                  <CheckCircle2 className="h-5 w-5 text-success" />
+                  Revisadas
+                </h2>
+                <ul className="divide-y divide-border text-sm">
+                  {reviewed.map((answer) => (
+                    <li
+                      key={answer.key}
+                      className="flex flex-wrap items-center gap-2 py-2"
+                    >
+                      <span>{formatAnswer(answer)}</span>
+                      <span className="text-muted-foreground">→</span>
+                      <span className="font-medium">
+                        {formatPlace(answer.place)}
+                      </span>
+                      <span className="flex-1 text-xs text-muted-foreground">
+                        {answer.riders} {answer.riders === 1 ? "piloto" : "pilotos"}
+                      </span>
+                      {isAdmin && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => save(answer.key, null)}
+                          disabled={saveOverride.isPending}
+                        >
+                          <Undo2 className="h-4 w-4 mr-2" />
+                          Deshacer
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Places;
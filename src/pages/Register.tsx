@@ -0,0 +1,328 @@
+import React, { useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import {
+  CalendarDays,
+  CheckCircle2,
+  Download,
+  Mail,
+  MapPin,
+  MessageCircle,
+} from "lucide-react";
+import { TicketQr } from "@/components/TicketQr";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  NO,
+  YES,
+  buildReceiptText,
+  buildRegistrationSchema,
+  fetchRegistrationForm,
+  isQuestionVisible,
+  mailtoLink,
+  submitRegistration,
+  toRegistrationData,
+  whatsappLink,
+  type RegistrationAnswers,
+  type RegistrationForm,
+  type RegistrationQuestion,
+} from "@/lib/registration";
+import { downloadTicketPng, type TicketGuest } from "@/lib/tickets";
+
+const INPUT_TYPES: Partial<Record<RegistrationQuestion["type"], string>> = {
+  phone: "tel",
+  email: "email",
+};
+
+interface AnswerInputProps {
+  question: RegistrationQuestion;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const AnswerInput: React.FC<AnswerInputProps> = ({ question, value, onChange }) => {
+  switch (question.type) {
+    case "textarea":
+      return <Textarea value={value} onChange={(e) => onChange(e.target.value)} />;
+    case "yesno":
+      return (
+        <RadioGroup value={value} onValueChange={onChange} className="flex gap-6">
+          {[YES, NO].map((option) => (
+            <label key={option} className="flex items-center gap-2 cursor-pointer">
+              <RadioGroupItem value={option} />
+              {option}
+            </label>
+          ))}
+        </RadioGroup>
+      );
+    case "choice":
+      return (
+        <Select value={value} onValueChange={onChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="Elegí una opción" />
+          </SelectTrigger>
+          <SelectContent>
+            {(question.options ?? []).map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    default:
+      return (
+        <Input
+          type={INPUT_TYPES[question.type] ?? "text"}
+          inputMode={question.field === "document" ? "numeric" : undefined}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+};
+
+interface ReceiptProps {
+  form: NonNullable<RegistrationForm>;
+  answers: RegistrationAnswers;
+  ticket: TicketGuest;
+  onRestart: () => void;
+}
+
+const Receipt: React.FC<ReceiptProps> = ({ form, answers, ticket, onRestart }) => {
+  const receipt = buildReceiptText(form.name, form.questions, answers);
+  const email = answers.email?.trim();
+
+  return (
+    <div className="space-y-6 text-center">
+      <CheckCircle2 className="h-16 w-16 text-success mx-auto" />
+      <div>
+        <h2 className="text-2xl font-bold">¡Inscripción confirmada!</h2>
+        <p className="text-muted-foreground">
+          Mostrá este código en el ingreso al evento.
+        </p>
+      </div>
+      <TicketQr qrToken={ticket.qr_token} size={220} className="mx-auto" />
+      <pre className="whitespace-pre-wrap rounded-lg bg-muted p-4 text-left text-sm">
+        {receipt}
+      </pre>
+      <div className="grid gap-2 sm:grid-cols-3">
+        <Button onClick={() => downloadTicketPng(ticket, form)}>
+          <Download className="h-4 w-4 mr-2" />
+          Descargar entrada
+        </Button>
+        <Button variant="outline" asChild>
+          <a href={whatsappLink(receipt)} target="_blank" rel="noreferrer">
+            <MessageCircle className="h-4 w-4 mr-2" />
+            WhatsApp
+          </a>
+        </Button>
+        {email && (
+          <Button variant="outline" asChild>
+            <a href={mailtoLink(email, `Inscripción: ${form.name}`, receipt)}>
+              <Mail className="h-4 w-4 mr-2" />
+              Email
+            </a>
+          </Button>
+        )}
+      </div>
+      <Button variant="link" onClick={onRestart}>
+        Inscribir a otra persona
+      </Button>
+    </div>
+  );
+};
+
+interface RegistrationFormViewProps {
+  eventId: string;
+  form: NonNullable<RegistrationForm>;
+}
+
+const RegistrationFormView: React.FC<RegistrationFormViewProps> = ({
+  eventId,
+  form: registration,
+}) => {
+  const { questions } = registration;
+  const defaultValues = useMemo(
+    () => Object.fromEntries(questions.map((q) => [q.id, ""])),
+    [questions]
+  );
+  const form = useForm<RegistrationAnswers>({
+    resolver: zodResolver(buildRegistrationSchema(questions)),
+    defaultValues,
+  });
+  const [submitted, setSubmitted] = useState<{
+    answers: RegistrationAnswers;
+    ticket: TicketGuest;
+  } | null>(null);
+  const { toast } = useToast();
+  const answers = form.watch();
+
+  const onSubmit = async (values: RegistrationAnswers) => {
+    try {
+      const ticket = await submitRegistration(
+        eventId,
+        toRegistrationData(questions, values)
+      );
+      setSubmitted({ answers: values, ticket });
+      window.scrollTo({ top: 0 });
+    } catch (error) {
+      console.error("Error submitting registration:", error);
+      toast({
+        title: "No se pudo completar la inscripción",
+        description:
+          (error instanceof Error && error.message) || "Intentá de nuevo.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (submitted) {
+    return (
+      <Receipt
+        form={registration}
+        answers={submitted.answers}
+        ticket={submitted.ticket}
+        onRestart={() => {
+          form.reset(defaultValues);
+          setSubmitted(null);
+        }}
+      />
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+        {questions
+          .filter((q) => isQuestionVisible(q, answers))
+          .map((q) => (
+            <FormField
+              key={q.id}
+              control={form.control}
+              name={q.id}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {q.label}
+                    {q.required && <span className="text-destructive"> *</span>}
+                  </FormLabel>
+                  <FormControl>
+                    <AnswerInput
+                      question={q}
+                      value={field.value ?? ""}
+                      onChange={field.onChange}
+                    />
+                  </FormControl>
+                  {q.help && <FormDescription>{q.help}</FormDescription>}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        <Button
+          type="submit"
+          className="w-full"
+          size="lg"
+          disabled={form.formState.isSubmitting}
+        >
+          {form.formState.isSubmitting ? "Enviando..." : "Inscribirme"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+const Register = () => {
+  const { eventId } = useParams();
+  const { data: registration, isLoading, error } = useQuery({
+    queryKey: ["registration-form", eventId],
+    enabled: !!eventId,
+    queryFn: () => fetchRegistrationForm(eventId!),
+  });
+
+  const dates = registration?.start_date
+    ? new Date(`${registration.start_date}T00:00:00`).toLocaleDateString(
+        "es-AR",
+        { day: "numeric", month: "long", year: "numeric" }
+      )
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background px-4 py-8">
+      <Card
+        className="card-moto mx-auto w-full max-w-xl space-y-6"
+        style={
+          registration?.primary_color
+            ? { borderTop: `6px solid ${registration.primary_color}` }
+            : undefined
+        }
+      >
+        {isLoading ? (
+          <p className="text-center text-muted-foreground animate-pulse">
+            Cargando formulario...
+          </p>
+        ) : error || !registration || !eventId ? (
+          <div className="text-center space-y-2">
+            <p className="text-xl font-semibold">Inscripción no disponible</p>
+            <p className="text-muted-foreground">
+              El evento no existe o la inscripción está cerrada.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="text-center space-y-2">
+              {registration.logo_url && (
+                <img
+                  src={registration.logo_url}
+                  alt={registration.name}
+                  className="h-16 mx-auto object-contain"
+                />
+              )}
+              <h1 className="text-2xl font-bold">{registration.name}</h1>
+              <div className="flex justify-center gap-4 text-sm text-muted-foreground">
+                {dates && (
+                  <span className="flex items-center gap-1">
+                    <CalendarDays className="h-4 w-4" />
+                    {dates}
+                  </span>
+                )}
+                {registration.location && (
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-4 w-4" />
+                    {registration.location}
+                  </span>
+                )}
+              </div>
+            </div>
+            <RegistrationFormView eventId={eventId} form={registration} />
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default Register;
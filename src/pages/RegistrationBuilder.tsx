@@ -0,0 +1,453 @@
+import React, { useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import {
+  ArrowDown,
+  ArrowUp,
+  Copy,
+  ExternalLink,
+  Lock,
+  Plus,
+  RotateCcw,
+  Save,
+  Trash2,
+} from "lucide-react";
+import { PageHeader } from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useEvent, useUpdateEvent, type MotoEvent } from "@/hooks/use-events";
+import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
+import { GUEST_FIELDS, type GuestFieldKey } from "@/lib/guestFields";
+import {
+  DEFAULT_QUESTIONS,
+  QUESTION_TYPE_LABELS,
+  YES,
+  isLockedQuestion,
+  parseQuestions,
+  type QuestionType,
+  type RegistrationQuestion,
+} from "@/lib/registration";
+
+// Radix selects don't accept an empty value
+const CUSTOM_FIELD = "__custom";
+const ALWAYS = "__always";
+
+const newQuestionId = () => `q-${crypto.randomUUID().slice(0, 8)}`;
+
+interface QuestionEditorProps {
+  question: RegistrationQuestion;
+  index: number;
+  total: number;
+  // Yes/no questions that can gate this one
+  conditions: RegistrationQuestion[];
+  usedFields: Set<GuestFieldKey>;
+  onChange: (changes: Partial<RegistrationQuestion>) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+const QuestionEditor: React.FC<QuestionEditorProps> = ({
+  question,
+  index,
+  total,
+  conditions,
+  usedFields,
+  onChange,
+  onMove,
+  onRemove,
+}) => {
+  const locked = isLockedQuestion(question);
+
+  return (
+    <Card className="card-moto p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-muted-foreground">
+          Pregunta {index + 1}
+          {locked && (
+            <Lock className="inline h-3 w-3 ml-2" aria-label="Obligatoria" />
+          )}
+        </span>
+        <div className="flex gap-1">
+          <Button
+            size="icon"
+            variant="ghost"
+            title="Subir"
+            disabled={index === 0}
+            onClick={() => onMove(-1)}
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            title="Bajar"
+            disabled={index === total - 1}
+            onClick={() => onMove(1)}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            title={locked ? "El DNI identifica cada inscripción" : "Eliminar"}
+            disabled={locked}
+            onClick={onRemove}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2 sm:col-span-2">
+          <Label>Texto de la pregunta</Label>
+          <Input
+            value={question.label}
+            onChange={(e) => onChange({ label: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Tipo de respuesta</Label>
+          <Select
+            value={question.type}
+            disabled={locked}
+            onValueChange={(type) => onChange({ type: type as QuestionType })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                <SelectItem key={type} value={type}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Columna del invitado</Label>
+          <Select
+            value={question.field ?? CUSTOM_FIELD}
+            disabled={locked}
+            onValueChange={(field) =>
+              onChange({
+                field:
+                  field === CUSTOM_FIELD ? undefined : (field as GuestFieldKey),
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CUSTOM_FIELD}>
+                Propia (usa el texto de la pregunta)
+              </SelectItem>
+              {GUEST_FIELDS.filter(
+                ({ key }) =>
+                  key === question.field ||
+                  (key !== "document" && !usedFields.has(key))
+              ).map(({ key, label }) => (
+                <SelectItem key={key} value={key}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {question.type === "choice" && (
+          <div className="space-y-2 sm:col-span-2">
+            <Label>Opciones (una por línea)</Label>
+            <Textarea
+              value={(question.options ?? []).join("\n")}
+              onChange={(e) => onChange({ options: e.target.value.split("\n") })}
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label>Ayuda (opcional)</Label>
+          <Input
+            value={question.help ?? ""}
+            onChange={(e) => onChange({ help: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Mostrar</Label>
+          <Select
+            value={question.showIf?.questionId ?? ALWAYS}
+            onValueChange={(questionId) =>
+              onChange({
+                showIf:
+                  questionId === ALWAYS
+                    ? undefined
+                    : { questionId, equals: YES },
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALWAYS}>Siempre</SelectItem>
+              {conditions.map((condition) => (
+                <SelectItem key={condition.id} value={condition.id}>
+                  Si responde "{YES}" a: {condition.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`required-${question.id}`}
+          checked={question.required}
+          disabled={locked}
+          onCheckedChange={(required) => onChange({ required })}
+        />
+        <Label htmlFor={`required-${question.id}`}>Obligatoria</Label>
+      </div>
+    </Card>
+  );
+};
+
+// Drops blank options and reports the first question that can't be saved
+const prepareQuestions = (questions: RegistrationQuestion[]) => {
+  const cleaned = questions.map((q) => ({
+    ...q,
+    label: q.label.trim(),
+    options:
+      q.type === "choice"
+        ? (q.options ?? []).map((option) => option.trim()).filter(Boolean)
+        : undefined,
+  }));
+  const invalid = cleaned.findIndex(
+    (q) => !q.label || (q.type === "choice" && q.options!.length === 0)
+  );
+  return { cleaned, invalid };
+};
+
+interface RegistrationEditorProps {
+  event: MotoEvent;
+}
+
+const RegistrationEditor: React.FC<RegistrationEditorProps> = ({ event }) => {
+  const updateEvent = useUpdateEvent(event.id);
+  const { toast } = useToast();
+  const savedQuestions = useMemo(
+    () => parseQuestions(event.registration_questions),
+    [event.registration_questions]
+  );
+  const [questions, setQuestions] = useState(savedQuestions);
+  const isDirty = JSON.stringify(questions) !== JSON.stringify(savedQuestions);
+  const publicUrl = `${window.location.origin}/register/${event.id}`;
+
+  const usedFields = useMemo(
+    () =>
+      new Set(
+        questions.flatMap((q) => (q.field ? [q.field] : []))
+      ),
+    [questions]
+  );
+
+  const handleError = (title: string) => (error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description:
+        error instanceof Error && error.message
+          ? error.message
+          : "Intentá de nuevo.",
+      variant: "destructive",
+    });
+  };
+
+  const updateQuestion = (index: number, changes: Partial<RegistrationQuestion>) =>
+    setQuestions((current) =>
+      current.map((q, i) => (i === index ? { ...q, ...changes } : q))
+    );
+
+  const moveQuestion = (index: number, offset: number) =>
+    setQuestions((current) => {
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+
+  // Questions gated on the removed one become unconditional
+  const removeQuestion = (index: number) =>
+    setQuestions((current) => {
+      const removedId = current[index].id;
+      return current
+        .filter((_, i) => i !== index)
+        .map((q) =>
+          q.showIf?.questionId === removedId ? { ...q, showIf: undefined } : q
+        );
+    });
+
+  const addQuestion = () =>
+    setQuestions((current) => [
+      ...current,
+      { id: newQuestionId(), label: "Nueva pregunta", type: "text", required: false },
+    ]);
+
+  const handleToggleOpen = async (open: boolean) => {
+    try {
+      await updateEvent.mutateAsync({ registration_open: open });
+      toast({
+        title: open ? "Inscripción abierta" : "Inscripción cerrada",
+        description: open
+          ? "El formulario ya acepta inscripciones."
+          : "El formulario deja de aceptar inscripciones.",
+      });
+    } catch (error) {
+      handleError("Error al actualizar el evento")(error);
+    }
+  };
+
+  const handleSave = async () => {
+    const { cleaned, invalid } = prepareQuestions(questions);
+    if (invalid !== -1) {
+      toast({
+        title: `Revisá la pregunta ${invalid + 1}`,
+        description: "Necesita un texto y, si es de opciones, al menos una opción.",
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      await updateEvent.mutateAsync({
+        registration_questions: cleaned as Json,
+      });
+      setQuestions(cleaned);
+      toast({ title: "Formulario guardado" });
+    } catch (error) {
+      handleError("Error al guardar el formulario")(error);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(publicUrl);
+      toast({ title: "Enlace copiado" });
+    } catch (error) {
+      handleError("No se pudo copiar el enlace")(error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="card-moto p-4 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="registration-open" className="text-base">
+              Inscripción abierta
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Mientras esté abierta, cualquiera con el enlace puede inscribirse.
+            </p>
+          </div>
+          <Switch
+            id="registration-open"
+            checked={event.registration_open}
+            disabled={updateEvent.isPending}
+            onCheckedChange={handleToggleOpen}
+          />
+        </div>
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Input value={publicUrl} readOnly className="font-mono text-sm" />
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleCopyLink}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copiar
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={publicUrl} target="_blank" rel="noreferrer">
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Abrir
+              </a>
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {questions.map((question, index) => (
+        <QuestionEditor
+          key={question.id}
+          question={question}
+          index={index}
+          total={questions.length}
+          conditions={questions.filter(
+            (q, i) => i < index && q.type === "yesno"
+          )}
+          usedFields={usedFields}
+          onChange={(changes) => updateQuestion(index, changes)}
+          onMove={(offset) => moveQuestion(index, offset)}
+          onRemove={() => removeQuestion(index)}
+        />
+      ))}
+
+      <div className="flex flex-wrap justify-between gap-2">
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={addQuestion}>
+            <Plus className="h-4 w-4 mr-2" />
+            Agregar pregunta
+          </Button>
+          <Button variant="ghost" onClick={() => setQuestions(DEFAULT_QUESTIONS)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Restaurar original
+          </Button>
+        </div>
+        <Button onClick={handleSave} disabled={!isDirty || updateEvent.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          {updateEvent.isPending ? "Guardando..." : "Guardar formulario"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const RegistrationBuilder = () => {
+  const { eventId } = useParams();
+  const { event, isLoading } = useEvent(eventId);
+  const { isAdmin } = useAuth();
+
+  if (!eventId) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader eventId={eventId} title="Formulario de inscripción" />
+
+      <main className="container mx-auto max-w-3xl px-4 py-6">
+        {!isAdmin ? (
+          <Card className="card-moto p-6 text-center text-muted-foreground">
+            Solo los administradores pueden editar el formulario.
+          </Card>
+        ) : isLoading || !event ? (
+          <p className="text-muted-foreground animate-pulse">
+            Cargando evento...
+          </p>
+        ) : (
+          <RegistrationEditor key={event.id} event={event} />
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default RegistrationBuilder;
@@ -0,0 +1,472 @@
+import React, { useMemo, useState } from "react";
+import { Navigate, useParams } from "react-router-dom";
+import {
+  CalendarClock,
+  Pencil,
+  Printer,
+  Shuffle,
+  Trash2,
+  UserPlus,
+  UserRound,
+  Users,
+  X,
+} from "lucide-react";
+import { PageHeader } from "@/components/PageHeader";
+import { RideDialog } from "@/components/RideDialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useGuests } from "@/hooks/use-guests";
+import {
+  useAddRideRiders,
+  useAssignRideGroups,
+  useDeleteRide,
+  useRemoveRideRider,
+  useRideRiders,
+  useRides,
+  useSetDeparted,
+} from "@/hooks/use-rides";
+import { useToast } from "@/hooks/use-toast";
+import {
+  assignGroups,
+  buildRoster,
+  DEFAULT_GROUP_SIZE,
+  formatDeparture,
+  getGroupLabel,
+  groupRoster,
+  planRidePopulation,
+  type Ride,
+  type RosterGroup,
+} from "@/lib/rides";
+
+const NO_GROUP = "none";
+
+interface RosterSheetProps {
+  ride: Ride;
+  groups: RosterGroup[];
+}
+
+// Only shown on paper: the marshal's list for the departure
+const RosterSheet: React.FC<RosterSheetProps> = ({ ride, groups }) => (
+  <div className="hidden print:block space-y-4">
+    <div>
+      <h1 className="text-xl font-bold">Rodada: {ride.name}</h1>
+      <p className="text-xs">
+        Salida: {formatDeparture(ride.departs_at)}
+        {ride.marshal && ` · Responsable: ${ride.marshal}`}
+      </p>
+    </div>
+    {groups.map((group) => (
+      <div key={group.number ?? NO_GROUP} className="space-y-1 break-inside-avoid">
+        <h2 className="font-semibold">
+          {getGroupLabel(group.number)} ({group.entries.length})
+        </h2>
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8">Salió</TableHead>
+              <TableHead>Nombre</TableHead>
+              <TableHead>DNI</TableHead>
+              <TableHead>Moto</TableHead>
+              <TableHead>Acompañante</TableHead>
+              <TableHead>Contacto de emergencia</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {group.entries.map((entry) => (
+              <TableRow key={entry.rider.id} className="break-inside-avoid">
+                <TableCell>{entry.rider.departed ? "✔" : "☐"}</TableCell>
+                <TableCell className="font-medium">{entry.name}</TableCell>
+                <TableCell>{entry.document}</TableCell>
+                <TableCell>{entry.motorcycle}</TableCell>
+                <TableCell>{entry.companionName}</TableCell>
+                <TableCell>{entry.emergencyContact}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    ))}
+  </div>
+);
+
+const RideRoster = () => {
+  const { eventId, rideId } = useParams();
+  const { isAdmin, canCheckIn } = useAuth();
+  const { toast } = useToast();
+  const { data: rides, isLoading: ridesLoading } = useRides(eventId!);
+  const { data: riders = [], isLoading: ridersLoading } = useRideRiders(rideId!);
+  const { guests, isLoading: guestsLoading } = useGuests(eventId!);
+  const addRiders = useAddRideRiders(rideId!);
+  const assignRideGroups = useAssignRideGroups(rideId!);
+  const removeRider = useRemoveRideRider(rideId!);
+  const setDeparted = useSetDeparted(rideId!);
+  const deleteRide = useDeleteRide(eventId!);
+  const [groupSize, setGroupSize] = useState(String(DEFAULT_GROUP_SIZE));
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isDeleted, setIsDeleted] = useState(false);
+
+  const ride = rides?.find((r) => r.id === rideId);
+  const roster = useMemo(() => buildRoster(riders, guests), [riders, guests]);
+  const groups = useMemo(() => groupRoster(roster), [roster]);
+  const population = useMemo(
+    () => (ride ? planRidePopulation(ride, riders, guests) : null),
+    [ride, riders, guests]
+  );
+  const departedCount = roster.filter((entry) => entry.rider.departed).length;
+  const groupCount = Math.max(0, ...roster.map((e) => e.rider.group_number ?? 0));
+
+  const showError = (title: string, error: unknown) => {
+    console.error(title, error);
+    toast({
+      title,
+      description:
+        (error instanceof Error && error.message) || "Intentá de nuevo.",
+      variant: "destructive",
+    });
+  };
+
+  const handleAddInterested = async () => {
+    if (!population || population.toAdd.length === 0) return;
+    try {
+      await addRiders.mutateAsync(population.toAdd.map((guest) => guest.id));
+      toast({
+        title: "Pilotos agregados",
+        description: `${population.toAdd.length} pilotos sumados a la rodada.${
+          population.overflow > 0
+            ? ` ${population.overflow} quedaron afuera por el cupo.`
+            : ""
+        }`,
+      });
+    } catch (error) {
+      showError("Error al agregar pilotos", error);
+    }
+  };
+
+  const handleAssignGroups = async () => {
+    const size = Number(groupSize);
+    if (!Number.isInteger(size) || size < 1) return;
+    try {
+      await assignRideGroups.mutateAsync(assignGroups(roster, size));
+    } catch (error) {
+      showError("Error al armar los grupos", error);
+    }
+  };
+
+  const handleGroupChange = async (riderId: string, value: string) => {
+    const rider = riders.find((r) => r.id === riderId);
+    if (!rider) return;
+    try {
+      await assignRideGroups.mutateAsync([
+        { rider, group_number: value === NO_GROUP ? null : Number(value) },
+      ]);
+    } catch (error) {
+      showError("Error al cambiar el grupo", error);
+    }
+  };
+
+  const handleDeparted = async (id: string, departed: boolean) => {
+    try {
+      await setDeparted.mutateAsync({ id, departed });
+    } catch (error) {
+      showError("Error al registrar la salida", error);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await removeRider.mutateAsync(id);
+    } catch (error) {
+      showError("Error al quitar al piloto", error);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteRide.mutateAsync(rideId!);
+      setIsDeleted(true);
+    } catch (error) {
+      showError("Error al eliminar la rodada", error);
+    }
+  };
+
+  if (!eventId || !rideId) return null;
+
+  const ridesPath = `/events/${eventId}/rides`;
+  if (isDeleted) return <Navigate to={ridesPath} replace />;
+
+  if (!ride) {
+    return (
+      <div className="min-h-screen bg-background">
+        <PageHeader eventId={eventId} title="Rodada" backTo={ridesPath} />
+        <main className="container mx-auto px-4 py-6">
+          {ridesLoading ? (
+            <p className="text-muted-foreground animate-pulse">
+              Cargando rodada...
+            </p>
+          ) : (
+            <Card className="card-moto p-6 text-center text-muted-foreground">
+              La rodada no existe o fue eliminada.
+            </Card>
+          )}
+        </main>
+      </div>
+    );
+  }
+
+  // One more than the highest group, so a rider can start a new one
+  const groupOptions = Array.from({ length: groupCount + 1 }, (_, i) => i + 1);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader eventId={eventId} title={ride.name} backTo={ridesPath}>
+        {isAdmin && (
+          <>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Editar rodada"
+              onClick={() => setIsEditing(true)}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Eliminar rodada"
+              onClick={() => setIsDeleting(true)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        <Button onClick={() => window.print()} disabled={roster.length === 0}>
+          <Printer className="h-4 w-4 mr-2" />
+          Imprimir planilla
+        </Button>
+      </PageHeader>
+
+      <main className="container mx-auto px-4 py-6 space-y-4 print:hidden">
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <CalendarClock className="h-4 w-4" />
+            {formatDeparture(ride.departs_at)}
+          </span>
+          {ride.marshal && (
+            <span className="flex items-center gap-1">
+              <UserRound className="h-4 w-4" />
+              {ride.marshal}
+            </span>
+          )}
+          <span className="flex items-center gap-1">
+            <Users className="h-4 w-4" />
+            {roster.length}
+            {ride.capacity ? ` / ${ride.capacity}` : ""} pilotos ·{" "}
+            {departedCount} salieron
+          </span>
+        </div>
+
+        {isAdmin && population && (
+          <Card className="card-moto flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Button
+                onClick={handleAddInterested}
+                disabled={population.toAdd.length === 0 || addRiders.isPending}
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                Agregar anotados ({population.toAdd.length})
+              </Button>
+              {population.overflow > 0 && (
+                <p className="text-xs text-warning">
+                  {population.overflow} anotados no entran por el cupo.
+                </p>
+              )}
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="group-size" className="text-xs">
+                  Pilotos por grupo
+                </Label>
+                <Input
+                  id="group-size"
+                  type="number"
+                  min={1}
+                  className="w-24"
+                  value={groupSize}
+                  onChange={(e) => setGroupSize(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleAssignGroups}
+                disabled={roster.length === 0 || assignRideGroups.isPending}
+              >
+                <Shuffle className="h-4 w-4 mr-2" />
+                Armar grupos
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {ridersLoading || guestsLoading ? (
+          <p className="text-muted-foreground animate-pulse">
+            Cargando planilla...
+          </p>
+        ) : roster.length === 0 ? (
+          <Card className="card-moto p-6 text-center text-muted-foreground">
+            Todavía no hay pilotos en esta rodada.
+          </Card>
+        ) : (
+          groups.map((group) => (
+            <Card key={group.number ?? NO_GROUP} className="card-moto space-y-2">
+              <h2 className="font-semibold">
+                {getGroupLabel(group.number)}{" "}
+                <span className="text-sm font-normal text-muted-foreground">
+                  {group.entries.filter((e) => e.rider.departed).length} de{" "}
+                  {group.entries.length} salieron
+                </span>
+              </h2>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Salió</TableHead>
+                    <TableHead>Piloto</TableHead>
+                    <TableHead className="hidden md:table-cell">Moto</TableHead>
+                    <TableHead className="hidden md:table-cell">
+                      Contacto de emergencia
+                    </TableHead>
+                    {isAdmin && <TableHead className="w-40">Grupo</TableHead>}
+                    {isAdmin && <TableHead className="w-12" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {group.entries.map((entry) => (
+                    <TableRow key={entry.rider.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={entry.rider.departed}
+                          disabled={!canCheckIn}
+                          onCheckedChange={(checked) =>
+                            handleDeparted(entry.rider.id, checked === true)
+                          }
+                          aria-label={`Salida de ${entry.name}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{entry.name}</p>
+                        {entry.companionName && (
+                          <p className="text-xs text-muted-foreground">
+                            Con {entry.companionName}
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground md:hidden">
+                          {entry.motorcycle}
+                        </p>
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell">
+                        {entry.motorcycle}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-sm">
+                        {entry.emergencyContact}
+                      </TableCell>
+                      {isAdmin && (
+                        <TableCell>
+                          <Select
+                            value={String(entry.rider.group_number ?? NO_GROUP)}
+                            onValueChange={(value) =>
+                              handleGroupChange(entry.rider.id, value)
+                            }
+                          >
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_GROUP}>Sin grupo</SelectItem>
+                              {groupOptions.map((number) => (
+                                <SelectItem key={number} value={String(number)}>
+                                  {getGroupLabel(number)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      )}
+                      {isAdmin && (
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Quitar de la rodada"
+                            onClick={() => handleRemove(entry.rider.id)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          ))
+        )}
+      </main>
+
+      <RosterSheet ride={ride} groups={groups} />
+
+      <RideDialog
+        eventId={eventId}
+        ride={ride}
+        open={isEditing}
+        onOpenChange={setIsEditing}
+      />
+
+      <AlertDialog open={isDeleting} onOpenChange={setIsDeleting}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar la rodada?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Se pierden los grupos y las salidas registradas. Los invitados no
+              se modifican.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Volver</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Eliminar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default RideRoster;
@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Bike, CalendarClock, Plus, Route, UserRound, Users } from "lucide-react";
+import { PageHeader } from "@/components/PageHeader";
+import { RideDialog } from "@/components/RideDialog";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useGuests } from "@/hooks/use-guests";
+import { useRides } from "@/hooks/use-rides";
+import { formatDeparture, getInterestedRiders } from "@/lib/rides";
+
+const Rides = () => {
+  const { eventId } = useParams();
+  const navigate = useNavigate();
+  const { isAdmin } = useAuth();
+  const { data: rides = [], isLoading } = useRides(eventId!);
+  const { guests } = useGuests(eventId!);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const interestedCount = useMemo(
+    () => getInterestedRiders(guests).length,
+    [guests]
+  );
+
+  if (!eventId) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader eventId={eventId} title="Rodadas">
+        {isAdmin && (
+          <Button onClick={() => setIsDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nueva rodada
+          </Button>
+        )}
+      </PageHeader>
+
+      <main className="container mx-auto max-w-3xl px-4 py-6 space-y-4">
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Users className="h-4 w-4" />
+          {interestedCount} pilotos respondieron que van a hacer las rodadas.
+        </p>
+
+        {isLoading ? (
+          <p className="text-muted-foreground animate-pulse">
+            Cargando rodadas...
+          </p>
+        ) : rides.length === 0 ? (
+          <Card className="card-moto p-6 text-center text-muted-foreground">
+            {isAdmin
+              ? "Todavía no hay rodadas. Creá la primera con el botón del encabezado."
+              : "Todavía no hay rodadas cargadas para este evento."}
+          </Card>
+        ) : (
+          rides.map((ride) => (
+            <Link
+              key={ride.id}
+              to={`/events/${eventId}/rides/${ride.id}`}
+              className="block"
+            >
+              <Card className="card-moto space-y-2 transition hover:border-primary/60">
+                <p className="flex items-center gap-2 text-lg font-semibold">
+                  <Route className="h-5 w-5 text-primary" />
+                  {ride.name}
+                </p>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <CalendarClock className="h-4 w-4" />
+                    {formatDeparture(ride.departs_at)}
+                  </span>
+                  {ride.marshal && (
+                    <span className="flex items-center gap-1">
+                      <UserRound className="h-4 w-4" />
+                      {ride.marshal}
+                    </span>
+                  )}
+                  <span className="flex items-center gap-1">
+                    <Bike className="h-4 w-4" />
+                    {ride.capacity ? `Cupo ${ride.capacity}` : "Sin cupo"}
+                  </span>
+                </div>
+              </Card>
+            </Link>
+          ))
+        )}
+      </main>
+
+      <RideDialog
+        eventId={eventId}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onSaved={(ride) => navigate(`/events/${eventId}/rides/${ride.id}`)}
+      />
+    </div>
+  );
+};
+
+export default Rides;
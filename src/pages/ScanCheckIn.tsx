@@ -0,0 +1,325 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Navigate, useSearchParams } from "react-router-dom";
+import { CameraOff, ImageUp, Keyboard } from "lucide-react";
+import {
+  CheckInResultScreen,
+  type ScanOutcome,
+} from "@/components/CheckInResultScreen";
+import { PageHeader } from "@/components/PageHeader";
+import { SyncStatus } from "@/components/SyncStatus";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useCameraScanner } from "@/hooks/use-camera-scanner";
+import { useCheckInStation } from "@/hooks/use-check-in-station";
+import { getLastEventId, useEvents } from "@/hooks/use-events";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useToast } from "@/hooks/use-toast";
+import { decodeImageFile } from "@/lib/codeScanner";
+import { describeCompanionLink } from "@/lib/companions";
+import {
+  findGuestsByDocument,
+  formatDocument,
+  parseDniBarcode,
+  parseDocumentInput,
+  type DniData,
+} from "@/lib/dni";
+import type { Guest } from "@/lib/guests";
+import { findGuestByToken, parseTicketPayload } from "@/lib/tickets";
+
+interface ScanStationProps {
+  eventId: string;
+}
+
+const ScanStation: React.FC<ScanStationProps> = ({ eventId }) => {
+  const { canCheckIn } = useAuth();
+  const { data: events = [] } = useEvents();
+  const {
+    guests,
+    isOnline,
+    isSyncing,
+    pendingCount,
+    sync,
+    confirm,
+    isConfirming,
+  } = useCheckInStation(eventId);
+  const [outcome, setOutcome] = useState<ScanOutcome | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [manualInput, setManualInput] = useState("");
+  const manualInputRef = useRef<HTMLInputElement>(null);
+  // Desk stations with a USB reader keep the field focused; phones would
+  // pop up the keyboard over the camera
+  const isMobile = useIsMobile();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Read from a ref so the camera callback always sees the latest list
+  const guestsRef = useRef(guests);
+  guestsRef.current = guests;
+
+  const resolveToken = useCallback(
+    async (token: string): Promise<ScanOutcome> => {
+      const local = guestsRef.current.find((g) => g.qr_token === token);
+      if (local) {
+        return { kind: "found", guest: local };
+      }
+
+      if (!navigator.onLine) {
+        return {
+          kind: "error",
+          title: "Entrada no encontrada",
+          message:
+            "No está en la lista descargada y no hay conexión para verificarla.",
+        };
+      }
+
+      const remote = await findGuestByToken(token);
+      if (remote && remote.event_id !== eventId) {
+        const other = events.find((e) => e.id === remote.event_id);
+        return {
+          kind: "error",
+          title: "Entrada de otro evento",
+          message: other
+            ? `Este código es para "${other.name}".`
+            : "Este código no corresponde a este evento.",
+        };
+      }
+      if (remote) return { kind: "found", guest: remote };
+      return {
+        kind: "error",
+        title: "Entrada no válida",
+        message:
+          "El código no corresponde a ningún invitado. Puede haber sido regenerado.",
+      };
+    },
+    [eventId, events]
+  );
+
+  // Guests are all in the local list, so this works offline too
+  const resolveDocument = useCallback(
+    (documentNumber: string, scanned: DniData | null): ScanOutcome => {
+      const [match] = findGuestsByDocument(guestsRef.current, documentNumber);
+      if (!match) {
+        return {
+          kind: "error",
+          title: "DNI no registrado",
+          message: `No hay invitados ni acompañantes con DNI ${formatDocument(
+            documentNumber
+          )}.`,
+        };
+      }
+
+      const scannedName = scanned
+        ? `${scanned.lastName} ${scanned.firstName}`
+        : null;
+      return {
+        kind: "found",
+        guest: match.guest,
+        note: scannedName ? `DNI escaneado: ${scannedName}` : undefined,
+      };
+    },
+    []
+  );
+
+  const handleCode = useCallback(
+    async (text: string) => {
+      navigator.vibrate?.(80);
+      const token = parseTicketPayload(text);
+      if (!token) {
+        const scanned = parseDniBarcode(text);
+        const documentNumber =
+          scanned?.documentNumber ?? parseDocumentInput(text);
+        setOutcome(
+          documentNumber
+            ? resolveDocument(documentNumber, scanned)
+            : {
+                kind: "error",
+                title: "Código no reconocido",
+                message: "No es una entrada de este evento ni un DNI.",
+              }
+        );
+        return;
+      }
+      try {
+        setOutcome(await resolveToken(token));
+      } catch (error) {
+        console.error("Error looking up ticket:", error);
+        setOutcome({
+          kind: "error",
+          title: "Error al verificar",
+          message:
+            (error instanceof Error && error.message) ||
+            "No se pudo verificar la entrada.",
+        });
+      }
+    },
+    [resolveDocument, resolveToken]
+  );
+
+  const {
+    videoRef,
+    error: cameraError,
+    isActive,
+    readsDni,
+  } = useCameraScanner({
+    enabled: !outcome,
+    onDetect: handleCode,
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsDecoding(true);
+    try {
+      const text = await decodeImageFile(file);
+      if (text) {
+        await handleCode(text);
+      } else {
+        toast({
+          title: "Sin código",
+          description: "No se encontró un código legible en la imagen.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error decoding image:", error);
+      toast({
+        title: "Error al leer la imagen",
+        description: "Probá con otra foto o captura.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!outcome && !isMobile) manualInputRef.current?.focus();
+  }, [outcome, isMobile]);
+
+  // USB and Bluetooth readers type the code and press Enter
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = manualInput.trim();
+    setManualInput("");
+    if (text) handleCode(text);
+  };
+
+  const handleConfirm = async (guest: Guest) => {
+    if (await confirm(guest)) setOutcome(null);
+  };
+
+  // Keep the open card, and the companion's state on it, in sync with
+  // check-ins from other devices
+  const shownGuest =
+    outcome?.kind === "found"
+      ? guests.find((g) => g.id === outcome.guest.id) ?? outcome.guest
+      : null;
+  const shownOutcome: ScanOutcome | null =
+    outcome?.kind === "found" && shownGuest
+      ? {
+          ...outcome,
+          guest: shownGuest,
+          link: describeCompanionLink(shownGuest, guests),
+        }
+      : outcome;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader eventId={eventId} title="Escanear entradas y DNI">
+        <SyncStatus
+          isOnline={isOnline}
+          isSyncing={isSyncing}
+          pendingCount={pendingCount}
+          onSync={sync}
+        />
+      </PageHeader>
+
+      <main className="container mx-auto max-w-md px-4 py-6 space-y-4">
+        <Card className="card-moto overflow-hidden p-0">
+          <div className="relative aspect-square bg-black">
+            <video
+              ref={videoRef}
+              className="h-full w-full object-cover"
+              muted
+              playsInline
+            />
+            {isActive && (
+              <div className="pointer-events-none absolute inset-[15%] rounded-xl border-4 border-primary/80" />
+            )}
+            {cameraError && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 p-6 text-center text-white">
+                <CameraOff className="h-10 w-10" />
+                <p>{cameraError}</p>
+                <p className="text-sm opacity-75">
+                  Podés subir una foto de la entrada.
+                </p>
+              </div>
+            )}
+          </div>
+        </Card>
+
+        <p className="text-center text-sm text-muted-foreground">
+          {readsDni
+            ? "Apuntá la cámara al código QR de la entrada o al código del dorso del DNI."
+            : "Apuntá la cámara al código QR de la entrada."}
+        </p>
+
+        <form onSubmit={handleManualSubmit} className="flex gap-2">
+          <Input
+            ref={manualInputRef}
+            value={manualInput}
+            onChange={(e) => setManualInput(e.target.value)}
+            placeholder="Lector de DNI o número de documento"
+            autoComplete="off"
+            disabled={!!outcome}
+          />
+          <Button type="submit" variant="secondary" disabled={!manualInput.trim()}>
+            <Keyboard className="h-4 w-4" />
+          </Button>
+        </form>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={isDecoding}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <ImageUp className="h-4 w-4 mr-2" />
+          {isDecoding ? "Leyendo imagen..." : "Subir imagen"}
+        </Button>
+      </main>
+
+      {shownOutcome && (
+        <CheckInResultScreen
+          outcome={shownOutcome}
+          canCheckIn={canCheckIn}
+          isConfirming={isConfirming}
+          onConfirm={handleConfirm}
+          onDismiss={() => setOutcome(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+// The station works on the event picked last on the main page
+const ScanCheckIn = () => {
+  const [searchParams] = useSearchParams();
+  const eventId = searchParams.get("event") ?? getLastEventId();
+
+  if (!eventId) return <Navigate to="/" replace />;
+  return <ScanStation key={eventId} eventId={eventId} />;
+};
+
+export default ScanCheckIn;
@@ -0,0 +1,246 @@
+import React, { useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Download, FileImage, FileText, RefreshCw, Search } from "lucide-react";
+import { PageHeader } from "@/components/PageHeader";
+import { TicketQr } from "@/components/TicketQr";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useEvent } from "@/hooks/use-events";
+import { useRegenerateTicket, useTicketGuests } from "@/hooks/use-tickets";
+import { useToast } from "@/hooks/use-toast";
+import { getGuestField } from "@/lib/guestFields";
+import { asGuestData, getGuestName, type Guest } from "@/lib/guests";
+import {
+  downloadTicketPdf,
+  downloadTicketPng,
+  downloadTicketsPdf,
+} from "@/lib/tickets";
+
+// Rendering hundreds of QR codes at once makes the page sluggish
+const PAGE_SIZE = 48;
+
+const Tickets = () => {
+  const { eventId } = useParams();
+  const { event } = useEvent(eventId);
+  const { isAdmin } = useAuth();
+  const { data: guests = [], isLoading } = useTicketGuests(eventId);
+  const regenerate = useRegenerateTicket(eventId!);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingRegenerate, setPendingRegenerate] = useState<Guest | null>(
+    null
+  );
+  const { toast } = useToast();
+
+  const filteredGuests = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return guests;
+    return guests.filter((guest) =>
+      Object.values(asGuestData(guest.guest_data)).some((value) =>
+        value?.toString().toLowerCase().includes(term)
+      )
+    );
+  }, [guests, searchTerm]);
+
+  const handleError = (title: string) => (error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description:
+        error instanceof Error && error.message
+          ? error.message
+          : "Intentá de nuevo.",
+      variant: "destructive",
+    });
+  };
+
+  const handleExportAll = async () => {
+    setIsExporting(true);
+    try {
+      await downloadTicketsPdf(filteredGuests, event);
+    } catch (error) {
+      handleError("Error al generar las entradas")(error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!pendingRegenerate) return;
+    try {
+      await regenerate.mutateAsync(pendingRegenerate.id);
+      toast({
+        title: "Entrada regenerada",
+        description: "El código anterior ya no es válido.",
+      });
+    } catch (error) {
+      handleError("Error al regenerar la entrada")(error);
+    } finally {
+      setPendingRegenerate(null);
+    }
+  };
+
+  if (!eventId) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader eventId={eventId} title="Entradas QR">
+        {isAdmin && (
+          <Button
+            onClick={handleExportAll}
+            disabled={isExporting || filteredGuests.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {isExporting
+              ? "Generando..."
+              : `Descargar ${filteredGuests.length} (PDF)`}
+          </Button>
+        )}
+      </PageHeader>
+
+      <main className="container mx-auto px-4 py-6 space-y-4">
+        {!isAdmin ? (
+          <Card className="card-moto p-6 text-center text-muted-foreground">
+            Solo los administradores pueden ver y descargar las entradas.
+          </Card>
+        ) : (
+          <>
+            <div className="relative max-w-md">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Buscar invitado..."
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setVisibleCount(PAGE_SIZE);
+                }}
+                className="pl-9"
+              />
+            </div>
+
+            {isLoading ? (
+              <p className="text-muted-foreground animate-pulse">
+                Cargando invitados...
+              </p>
+            ) : filteredGuests.length === 0 ? (
+              <p className="text-muted-foreground">
+                No hay invitados para mostrar.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                {filteredGuests.slice(0, visibleCount).map((guest) => {
+                  const data = asGuestData(guest.guest_data);
+                  const document = getGuestField(data, "document");
+                  return (
+                    <Card
+                      key={guest.id}
+                      className="card-moto p-4 flex flex-col items-center gap-3"
+                    >
+                      <TicketQr qrToken={guest.qr_token} />
+                      <div className="text-center">
+                        <p className="font-semibold">
+                          {getGuestName(data, guest.guest_id)}
+                        </p>
+                        {document && (
+                          <p className="text-xs text-muted-foreground">
+                            DNI {document}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Descargar PNG"
+                          onClick={() =>
+                            downloadTicketPng(guest, event).catch(
+                              handleError("Error al generar la entrada")
+                            )
+                          }
+                        >
+                          <FileImage className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Descargar PDF"
+                          onClick={() =>
+                            downloadTicketPdf(guest, event).catch(
+                              handleError("Error al generar la entrada")
+                            )
+                          }
+                        >
+                          <FileText className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Regenerar código"
+                          onClick={() => setPendingRegenerate(guest)}
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+
+            {filteredGuests.length > visibleCount && (
+              <div className="text-center">
+                <Button
+                  variant="outline"
+                  onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+                >
+                  Mostrar más ({filteredGuests.length - visibleCount} restantes)
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      <AlertDialog
+        open={!!pendingRegenerate}
+        onOpenChange={(open) => !open && setPendingRegenerate(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Regenerar la entrada?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRegenerate &&
+                getGuestName(
+                  asGuestData(pendingRegenerate.guest_data),
+                  pendingRegenerate.guest_id
+                )}{" "}
+              va a necesitar la nueva entrada: el código actual deja de
+              funcionar en el ingreso.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRegenerate}>
+              Regenerar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Tickets;
@@ -0,0 +1,43 @@
+-- Create table for events so several rallies can run side by side
+CREATE TABLE public.events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  start_date DATE,
+  end_date DATE,
+  location TEXT,
+  -- Branding shown in the app header
+  logo_url TEXT,
+  primary_color TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on events"
+ON public.events
+FOR ALL
+USING (true)
+WITH CHECK (true);
+
+CREATE TRIGGER update_events_updated_at
+  BEFORE UPDATE ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move existing guests into a first event before scoping them
+INSERT INTO public.events (name) VALUES ('Evento de Motos 2025');
+
+ALTER TABLE public.guests
+  ADD COLUMN event_id UUID REFERENCES public.events(id) ON DELETE CASCADE;
+
+UPDATE public.guests SET event_id = (SELECT id FROM public.events LIMIT 1);
+
+ALTER TABLE public.guests ALTER COLUMN event_id SET NOT NULL;
+
+-- guest_id is now unique per event instead of globally
+DROP INDEX public.idx_guests_guest_id;
+CREATE UNIQUE INDEX idx_guests_event_guest_id ON public.guests(event_id, guest_id);
+
+ALTER TABLE public.events REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.events;
@@ -0,0 +1,180 @@
+-- Roles for organizers: admins manage events and imports, staff checks
+-- guests in, viewers only read
+CREATE TYPE public.app_role AS ENUM ('admin', 'staff', 'viewer');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Security definer so policies can check roles without recursing into
+-- user_roles' own RLS
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = _role
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_any_role(_user_id UUID, _roles public.app_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = ANY(_roles)
+  )
+$$;
+
+CREATE POLICY "Users can read their own roles"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins manage roles"
+ON public.user_roles
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Replace the open policies: the anon key no longer reads or writes anything
+DROP POLICY "Allow all operations on guests" ON public.guests;
+DROP POLICY "Allow all operations on events" ON public.events;
+
+CREATE POLICY "Organizers can read guests"
+ON public.guests
+FOR SELECT
+TO authenticated
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'staff', 'viewer']::public.app_role[]));
+
+CREATE POLICY "Admins can insert guests"
+ON public.guests
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins and staff can update guests"
+ON public.guests
+FOR UPDATE
+TO authenticated
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'staff']::public.app_role[]))
+WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'staff']::public.app_role[]));
+
+CREATE POLICY "Admins can delete guests"
+ON public.guests
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Organizers can read events"
+ON public.events
+FOR SELECT
+TO authenticated
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'staff', 'viewer']::public.app_role[]));
+
+CREATE POLICY "Admins manage events"
+ON public.events
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- RLS works per row, so staff are limited to the check-in columns here
+CREATE OR REPLACE FUNCTION public.restrict_staff_guest_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND (
+    NEW.guest_id IS DISTINCT FROM OLD.guest_id OR
+    NEW.guest_data IS DISTINCT FROM OLD.guest_data OR
+    NEW.event_id IS DISTINCT FROM OLD.event_id
+  ) THEN
+    RAISE EXCEPTION 'Only admins can edit guest data';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER restrict_staff_guest_updates
+  BEFORE UPDATE ON public.guests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_staff_guest_updates();
+
+-- Role management for admins, by email since auth.users is not exposed
+CREATE OR REPLACE FUNCTION public.list_user_roles()
+RETURNS TABLE (user_id UUID, email TEXT, role public.app_role)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can list roles';
+  END IF;
+
+  RETURN QUERY
+  SELECT ur.user_id, u.email::TEXT, ur.role
+  FROM public.user_roles ur
+  JOIN auth.users u ON u.id = ur.user_id
+  ORDER BY u.email;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_role(_email TEXT, _role public.app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can assign roles';
+  END IF;
+
+  SELECT id INTO _user_id FROM auth.users WHERE lower(email) = lower(_email);
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'No user registered with email %', _email;
+  END IF;
+
+  -- A user holds a single role
+  DELETE FROM public.user_roles WHERE user_id = _user_id;
+  INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, _role);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_user_role(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can remove roles';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = _user_id;
+END;
+$$;
+
+-- The first admin has to be granted from the SQL editor:
+-- INSERT INTO public.user_roles (user_id, role)
+-- SELECT id, 'admin' FROM auth.users WHERE email = 'organizador@ejemplo.com';
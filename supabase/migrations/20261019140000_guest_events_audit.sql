@@ -0,0 +1,82 @@
+-- Who confirmed a guest and from which device, written by the client on
+-- every check-in so the audit trigger can record it
+ALTER TABLE public.guests
+  ADD COLUMN confirmed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN confirmed_device TEXT;
+
+-- Append-only log of every check-in and undo
+CREATE TABLE public.guest_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  -- Kept when the guest is deleted so the history survives re-imports
+  guest_id UUID REFERENCES public.guests(id) ON DELETE SET NULL,
+  guest_name TEXT,
+  action TEXT NOT NULL CHECK (action IN ('check_in', 'undo_check_in')),
+  old_confirmed BOOLEAN,
+  new_confirmed BOOLEAN NOT NULL,
+  actor_id UUID,
+  actor_email TEXT,
+  device TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_guest_events_guest_id ON public.guest_events(guest_id, created_at DESC);
+CREATE INDEX idx_guest_events_event_id ON public.guest_events(event_id, created_at DESC);
+
+ALTER TABLE public.guest_events ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for organizers; rows are only written by the trigger below
+CREATE POLICY "Organizers can read guest events"
+ON public.guest_events
+FOR SELECT
+TO authenticated
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'staff', 'viewer']::public.app_role[]));
+
+CREATE OR REPLACE FUNCTION public.log_guest_check_in()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old_confirmed BOOLEAN;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _old_confirmed := OLD.confirmed;
+  END IF;
+
+  INSERT INTO public.guest_events (
+    event_id, guest_id, guest_name, action, old_confirmed, new_confirmed,
+    actor_id, actor_email, device
+  )
+  VALUES (
+    NEW.event_id,
+    NEW.id,
+    COALESCE(NEW.guest_data->>'Apellido y Nombre', NEW.guest_data->>'Nombre', NEW.guest_id),
+    CASE WHEN NEW.confirmed THEN 'check_in' ELSE 'undo_check_in' END,
+    _old_confirmed,
+    NEW.confirmed,
+    auth.uid(),
+    (SELECT email FROM auth.users WHERE id = auth.uid()),
+    NEW.confirmed_device
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_guest_check_in_update
+  AFTER UPDATE OF confirmed ON public.guests
+  FOR EACH ROW
+  WHEN (OLD.confirmed IS DISTINCT FROM NEW.confirmed)
+  EXECUTE FUNCTION public.log_guest_check_in();
+
+-- Guests created already checked in (e.g. registered at the gate)
+CREATE TRIGGER log_guest_check_in_insert
+  AFTER INSERT ON public.guests
+  FOR EACH ROW
+  WHEN (NEW.confirmed)
+  EXECUTE FUNCTION public.log_guest_check_in();
+
+ALTER TABLE public.guest_events REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.guest_events;
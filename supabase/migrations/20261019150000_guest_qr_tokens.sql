@@ -0,0 +1,23 @@
+-- Ticket token printed in each guest's QR code. It is 128 random bits
+-- generated by the database, so a code can't be guessed or derived from
+-- guest data, and it is only valid if it matches a stored row.
+ALTER TABLE public.guests
+  ADD COLUMN qr_token TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(16), 'hex');
+
+CREATE UNIQUE INDEX idx_guests_qr_token ON public.guests(qr_token);
+
+-- Reissuing a ticket is an admin action like any other guest edit
+CREATE OR REPLACE FUNCTION public.restrict_staff_guest_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND (
+    NEW.guest_id IS DISTINCT FROM OLD.guest_id OR
+    NEW.guest_data IS DISTINCT FROM OLD.guest_data OR
+    NEW.event_id IS DISTINCT FROM OLD.event_id OR
+    NEW.qr_token IS DISTINCT FROM OLD.qr_token
+  ) THEN
+    RAISE EXCEPTION 'Only admins can edit guest data';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,28 @@
+-- Where a guest came from: the organizer's spreadsheet or registered at
+-- the gate by staff
+ALTER TABLE public.guests
+  ADD COLUMN origin TEXT NOT NULL DEFAULT 'import'
+  CHECK (origin IN ('import', 'walk-in'));
+
+-- Staff may add riders at the gate, but not import lists
+CREATE POLICY "Staff can register walk-ins"
+ON public.guests
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'staff') AND origin = 'walk-in');
+
+CREATE OR REPLACE FUNCTION public.restrict_staff_guest_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND (
+    NEW.guest_id IS DISTINCT FROM OLD.guest_id OR
+    NEW.guest_data IS DISTINCT FROM OLD.guest_data OR
+    NEW.event_id IS DISTINCT FROM OLD.event_id OR
+    NEW.qr_token IS DISTINCT FROM OLD.qr_token OR
+    NEW.origin IS DISTINCT FROM OLD.origin
+  ) THEN
+    RAISE EXCEPTION 'Only admins can edit guest data';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
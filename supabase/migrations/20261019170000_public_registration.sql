@@ -0,0 +1,87 @@
+-- Self-registration: each event defines its own questions and decides
+-- when the public form is open
+ALTER TABLE public.events
+  ADD COLUMN registration_open BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN registration_questions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.guests DROP CONSTRAINT guests_origin_check;
+ALTER TABLE public.guests
+  ADD CONSTRAINT guests_origin_check
+  CHECK (origin IN ('import', 'walk-in', 'online'));
+
+-- Anonymous visitors never touch the tables directly: these two functions
+-- expose the form of an open event and insert a single registration.
+CREATE OR REPLACE FUNCTION public.get_registration_form(_event_id UUID)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  start_date DATE,
+  end_date DATE,
+  location TEXT,
+  logo_url TEXT,
+  primary_color TEXT,
+  registration_questions JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id, e.name, e.start_date, e.end_date, e.location, e.logo_url,
+         e.primary_color, e.registration_questions
+  FROM public.events e
+  WHERE e.id = _event_id AND e.registration_open
+$$;
+
+CREATE OR REPLACE FUNCTION public.register_guest(_event_id UUID, _guest_data JSONB)
+RETURNS TABLE (
+  id UUID,
+  event_id UUID,
+  guest_id TEXT,
+  guest_data JSONB,
+  qr_token TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _document TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.events e WHERE e.id = _event_id AND e.registration_open
+  ) THEN
+    RAISE EXCEPTION 'registration_closed';
+  END IF;
+
+  IF jsonb_typeof(_guest_data) <> 'object' OR pg_column_size(_guest_data) > 16384 THEN
+    RAISE EXCEPTION 'invalid_registration';
+  END IF;
+
+  -- Digits only: the guest ID an import keyed on the DNI column builds
+  _document := regexp_replace(coalesce(_guest_data->>'DNI', ''), '\D', '', 'g');
+  IF _document !~ '^\d{6,9}$' THEN
+    RAISE EXCEPTION 'invalid_document';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.guests g
+    WHERE g.event_id = _event_id AND g.guest_id = _document
+  ) THEN
+    RAISE EXCEPTION 'already_registered';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.guests (event_id, guest_id, guest_data, origin)
+  VALUES (
+    _event_id,
+    _document,
+    _guest_data || jsonb_build_object('DNI', _document),
+    'online'
+  )
+  RETURNING guests.id, guests.event_id, guests.guest_id, guests.guest_data, guests.qr_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_registration_form(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.register_guest(UUID, JSONB) TO anon, authenticated;
@@ -0,0 +1,122 @@
+-- Companions are attendees of their own: a guests row linked to the rider
+-- they came with, so each one is checked in separately
+ALTER TABLE public.guests
+  ADD COLUMN parent_guest_id UUID REFERENCES public.guests(id) ON DELETE CASCADE;
+
+-- One companion per rider, as in the Google Form
+CREATE UNIQUE INDEX idx_guests_parent_guest_id
+  ON public.guests(parent_guest_id)
+  WHERE parent_guest_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.restrict_staff_guest_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND (
+    NEW.guest_id IS DISTINCT FROM OLD.guest_id OR
+    NEW.guest_data IS DISTINCT FROM OLD.guest_data OR
+    NEW.event_id IS DISTINCT FROM OLD.event_id OR
+    NEW.qr_token IS DISTINCT FROM OLD.qr_token OR
+    NEW.origin IS DISTINCT FROM OLD.origin OR
+    NEW.parent_guest_id IS DISTINCT FROM OLD.parent_guest_id
+  ) THEN
+    RAISE EXCEPTION 'Only admins can edit guest data';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- guest_data for the companion described in a rider's row, or NULL when
+-- the rider comes alone. Uses the canonical columns from guestFields.ts.
+CREATE OR REPLACE FUNCTION public.companion_guest_data(_data JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _answer TEXT := lower(trim(COALESCE(_data->>'Venís acompañado', '')));
+  _name TEXT := trim(COALESCE(_data->>'Apellido y Nombre del acompañante', ''));
+  _document TEXT := regexp_replace(COALESCE(_data->>'DNI Acompañante', ''), '\D', '', 'g');
+BEGIN
+  -- "No", "Ninguno", "-" and the like are not names
+  IF _name !~ '[[:alpha:]]{2}'
+    OR lower(_name) IN ('no', 'na', 'n/a', 'nada', 'ninguno', 'ninguna') THEN
+    _name := '';
+  END IF;
+
+  IF _answer ~ '^no\M' OR (_name = '' AND _document = '') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'Apellido y Nombre',
+    COALESCE(
+      NULLIF(_name, ''),
+      'Acompañante de ' || COALESCE(_data->>'Apellido y Nombre', _data->>'Nombre', '')
+    ),
+    'DNI',
+    _document
+  );
+END;
+$$;
+
+-- Keeps the companion row in step with the rider's guest_data, whether it
+-- came from an import, a walk-in or the registration form. A companion who
+-- already checked in is kept even if the rider's row no longer lists them.
+CREATE OR REPLACE FUNCTION public.sync_guest_companion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _companion JSONB := public.companion_guest_data(NEW.guest_data);
+BEGIN
+  IF _companion IS NULL THEN
+    DELETE FROM public.guests
+    WHERE parent_guest_id = NEW.id AND NOT confirmed;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.guests (event_id, guest_id, guest_data, origin, parent_guest_id)
+  VALUES (NEW.event_id, NEW.guest_id || '#acompañante', _companion, NEW.origin, NEW.id)
+  ON CONFLICT (parent_guest_id) WHERE parent_guest_id IS NOT NULL
+  DO UPDATE SET
+    guest_id = EXCLUDED.guest_id,
+    guest_data = EXCLUDED.guest_data
+  WHERE guests.guest_id IS DISTINCT FROM EXCLUDED.guest_id
+    OR guests.guest_data IS DISTINCT FROM EXCLUDED.guest_data;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_guest_companion
+  AFTER INSERT OR UPDATE OF guest_id, guest_data ON public.guests
+  FOR EACH ROW
+  WHEN (NEW.parent_guest_id IS NULL)
+  EXECUTE FUNCTION public.sync_guest_companion();
+
+-- Existing companions were checked in together with their rider, so they
+-- start with the rider's status. The audit log already has that check-in.
+ALTER TABLE public.guests DISABLE TRIGGER log_guest_check_in_insert;
+
+INSERT INTO public.guests (
+  event_id, guest_id, guest_data, origin, parent_guest_id,
+  confirmed, confirmed_at, confirmed_by, confirmed_device
+)
+SELECT
+  g.event_id,
+  g.guest_id || '#acompañante',
+  public.companion_guest_data(g.guest_data),
+  g.origin,
+  g.id,
+  g.confirmed,
+  g.confirmed_at,
+  g.confirmed_by,
+  g.confirmed_device
+FROM public.guests g
+WHERE g.parent_guest_id IS NULL
+  AND public.companion_guest_data(g.guest_data) IS NOT NULL;
+
+ALTER TABLE public.guests ENABLE TRIGGER log_guest_check_in_insert;
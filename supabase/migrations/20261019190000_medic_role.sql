@@ -0,0 +1,4 @@
+-- First-aid staff: read-only access to the emergency view. Added in its
+-- own migration because a new enum value can't be used in the same
+-- transaction that creates it.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'medic';
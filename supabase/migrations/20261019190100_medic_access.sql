@@ -0,0 +1,15 @@
+-- Medics read guests (for their medical data) and events (to pick one),
+-- nothing else
+DROP POLICY "Organizers can read guests" ON public.guests;
+CREATE POLICY "Organizers can read guests"
+ON public.guests
+FOR SELECT
+TO authenticated
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'staff', 'viewer', 'medic']::public.app_role[]));
+
+DROP POLICY "Organizers can read events" ON public.events;
+CREATE POLICY "Organizers can read events"
+ON public.events
+FOR SELECT
+TO authenticated
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'staff', 'viewer', 'medic']::public.app_role[]));
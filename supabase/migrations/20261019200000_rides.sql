@@ -0,0 +1,102 @@
+-- Group rides ("rodadas") run during the event, each with its own roster
+CREATE TABLE public.rides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  -- Route name, e.g. "Camino de las Altas Cumbres"
+  name TEXT NOT NULL,
+  departs_at TIMESTAMP WITH TIME ZONE,
+  marshal TEXT,
+  capacity INTEGER CHECK (capacity > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_rides_event_id ON public.rides(event_id, departs_at);
+
+CREATE TRIGGER update_rides_updated_at
+  BEFORE UPDATE ON public.rides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Riders on a ride. Departure is checked off here, apart from the event
+-- entry check-in on guests.
+CREATE TABLE public.ride_riders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  guest_id UUID NOT NULL REFERENCES public.guests(id) ON DELETE CASCADE,
+  -- NULL until the rider is assigned to a group
+  group_number INTEGER CHECK (group_number > 0),
+  departed BOOLEAN NOT NULL DEFAULT false,
+  departed_at TIMESTAMP WITH TIME ZONE,
+  departed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (ride_id, guest_id)
+);
+
+CREATE INDEX idx_ride_riders_guest_id ON public.ride_riders(guest_id);
+
+ALTER TABLE public.rides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ride_riders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organizers can read rides"
+ON public.rides
+FOR SELECT
+TO authenticated
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'staff', 'viewer', 'medic']::public.app_role[]));
+
+CREATE POLICY "Admins manage rides"
+ON public.rides
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Organizers can read ride riders"
+ON public.ride_riders
+FOR SELECT
+TO authenticated
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'staff', 'viewer', 'medic']::public.app_role[]));
+
+CREATE POLICY "Admins can insert ride riders"
+ON public.ride_riders
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins and staff can update ride riders"
+ON public.ride_riders
+FOR UPDATE
+TO authenticated
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'staff']::public.app_role[]))
+WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'staff']::public.app_role[]));
+
+CREATE POLICY "Admins can delete ride riders"
+ON public.ride_riders
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Staff marshals only check off departures; the roster is the admins'
+CREATE OR REPLACE FUNCTION public.restrict_staff_ride_rider_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND (
+    NEW.ride_id IS DISTINCT FROM OLD.ride_id OR
+    NEW.guest_id IS DISTINCT FROM OLD.guest_id OR
+    NEW.group_number IS DISTINCT FROM OLD.group_number
+  ) THEN
+    RAISE EXCEPTION 'Only admins can edit the ride roster';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER restrict_staff_ride_rider_updates
+  BEFORE UPDATE ON public.ride_riders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_staff_ride_rider_updates();
+
+ALTER TABLE public.rides REPLICA IDENTITY FULL;
+ALTER TABLE public.ride_riders REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.rides;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ride_riders;
@@ -0,0 +1,72 @@
+-- Normalized make/model/displacement for "Moto en la que venís", computed
+-- in the app from the catalogue and stored next to guest_data
+ALTER TABLE public.guests ADD COLUMN motorcycle JSONB;
+
+-- App-wide settings edited by admins, e.g. the motorcycle catalogue.
+-- A missing key means the default shipped with the app.
+CREATE TABLE public.app_settings (
+  key TEXT NOT NULL PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organizers can read settings"
+ON public.app_settings
+FOR SELECT
+TO authenticated
+USING (public.has_any_role(auth.uid(), ARRAY['admin', 'staff', 'viewer', 'medic']::public.app_role[]));
+
+CREATE POLICY "Admins manage settings"
+ON public.app_settings
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Staff can't change the normalized bike either
+CREATE OR REPLACE FUNCTION public.restrict_staff_guest_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND (
+    NEW.guest_id IS DISTINCT FROM OLD.guest_id OR
+    NEW.guest_data IS DISTINCT FROM OLD.guest_data OR
+    NEW.event_id IS DISTINCT FROM OLD.event_id OR
+    NEW.qr_token IS DISTINCT FROM OLD.qr_token OR
+    NEW.origin IS DISTINCT FROM OLD.origin OR
+    NEW.parent_guest_id IS DISTINCT FROM OLD.parent_guest_id OR
+    NEW.motorcycle IS DISTINCT FROM OLD.motorcycle
+  ) THEN
+    RAISE EXCEPTION 'Only admins can edit guest data';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Bulk write after a catalogue edit: _values maps guest row id to the
+-- normalized value. Runs with the caller's rights, so RLS still applies.
+CREATE OR REPLACE FUNCTION public.set_guest_motorcycles(_event_id UUID, _values JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _updated INTEGER;
+BEGIN
+  UPDATE public.guests g
+  SET motorcycle = v.value
+  FROM jsonb_each(_values) v
+  WHERE g.event_id = _event_id
+    AND g.id = v.key::uuid
+    AND g.motorcycle IS DISTINCT FROM v.value;
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  RETURN _updated;
+END;
+$$;
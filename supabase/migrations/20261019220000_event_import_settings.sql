@@ -0,0 +1,6 @@
+-- The column mapping and identity columns chosen on import belong to the
+-- event, so every device (walk-in desk, staff phones) builds the same
+-- guest IDs. NULL identity_columns means the DNI column.
+ALTER TABLE public.events
+  ADD COLUMN identity_columns JSONB,
+  ADD COLUMN column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb;
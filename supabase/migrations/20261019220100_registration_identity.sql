@@ -0,0 +1,108 @@
+-- Public registrations keyed the same way as imports and walk-ins, from
+-- the event's identity columns instead of always the DNI
+
+-- Mirrors normalizeText in src/lib/columnMapping.ts
+CREATE OR REPLACE FUNCTION public.normalize_identity_text(_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(regexp_replace(regexp_replace(
+    translate(lower(coalesce(_value, '')),
+              'áàâäãéèêëíìîïóòôöõúùûüñç', 'aaaaaeeeeiiiiooooouuuunc'),
+    '[^a-z0-9 ]+', ' ', 'g'), '\s+', ' ', 'g'))
+$$;
+
+-- Mirrors buildGuestId in src/lib/guestIdentity.ts for explicit identity
+-- columns: formatted numbers in DNI columns count their digits only, a
+-- single column is otherwise kept as typed and composites are normalized
+-- and joined. The hashed IDs of events without identity columns are only
+-- built by the app.
+CREATE OR REPLACE FUNCTION public.build_guest_id(_guest_data JSONB, _columns JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _parts TEXT[] := '{}';
+  _column TEXT;
+  _value TEXT;
+BEGIN
+  IF jsonb_typeof(_columns) <> 'array' OR jsonb_array_length(_columns) = 0 THEN
+    RETURN '';
+  END IF;
+
+  FOR _column IN SELECT jsonb_array_elements_text(_columns) LOOP
+    _value := btrim(coalesce(_guest_data->>_column, ''), E' \t\r\n');
+    IF public.normalize_identity_text(_column) ~ '(^| )(dni|documento)( |$)'
+       AND _value ~ '^[0-9.\s-]+$' THEN
+      _value := regexp_replace(_value, '\D', '', 'g');
+    END IF;
+    IF jsonb_array_length(_columns) > 1 THEN
+      _value := public.normalize_identity_text(_value);
+    END IF;
+    _parts := _parts || _value;
+  END LOOP;
+
+  IF array_to_string(_parts, '') = '' THEN
+    RETURN '';
+  END IF;
+  RETURN array_to_string(_parts, '|');
+END;
+$$;
+
+-- Registrations get the guest ID an import of the same rider would, using
+-- the event's identity columns; the DNI digits when those are missing
+CREATE OR REPLACE FUNCTION public.register_guest(_event_id UUID, _guest_data JSONB)
+RETURNS TABLE (
+  id UUID,
+  event_id UUID,
+  guest_id TEXT,
+  guest_data JSONB,
+  qr_token TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _document TEXT;
+  _columns JSONB;
+  _guest_id TEXT;
+BEGIN
+  SELECT coalesce(e.identity_columns, '["DNI"]'::jsonb) INTO _columns
+  FROM public.events e
+  WHERE e.id = _event_id AND e.registration_open;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'registration_closed';
+  END IF;
+
+  IF jsonb_typeof(_guest_data) <> 'object' OR pg_column_size(_guest_data) > 16384 THEN
+    RAISE EXCEPTION 'invalid_registration';
+  END IF;
+
+  _document := regexp_replace(coalesce(_guest_data->>'DNI', ''), '\D', '', 'g');
+  IF _document !~ '^\d{6,9}$' THEN
+    RAISE EXCEPTION 'invalid_document';
+  END IF;
+
+  _guest_data := _guest_data || jsonb_build_object('DNI', _document);
+  _guest_id := coalesce(
+    nullif(public.build_guest_id(_guest_data, _columns), ''),
+    _document
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM public.guests g
+    WHERE g.event_id = _event_id AND g.guest_id = _guest_id
+  ) THEN
+    RAISE EXCEPTION 'already_registered';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.guests (event_id, guest_id, guest_data, origin)
+  VALUES (_event_id, _guest_id, _guest_data, 'online')
+  RETURNING guests.id, guests.event_id, guests.guest_id, guests.guest_data, guests.qr_token;
+END;
+$$;
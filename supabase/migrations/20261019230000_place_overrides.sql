@@ -0,0 +1,21 @@
+-- Sets or forgets one reviewed origin inside the place_overrides setting
+-- in a single statement, so admins reviewing at the same time keep each
+-- other's decisions. Runs as the caller: only admins pass the RLS.
+CREATE OR REPLACE FUNCTION public.set_place_override(_key TEXT, _choice JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF _choice IS NULL THEN
+    UPDATE public.app_settings
+    SET value = value - _key
+    WHERE key = 'place_overrides';
+  ELSE
+    INSERT INTO public.app_settings (key, value)
+    VALUES ('place_overrides', jsonb_build_object(_key, _choice))
+    ON CONFLICT (key) DO UPDATE
+    SET value = app_settings.value || jsonb_build_object(_key, _choice);
+  END IF;
+END;
+$$;